@@ -0,0 +1,84 @@
+// CORS and security headers for the webhook proxy. Only our storefront origins
+// get CORS access; every response, success or error, carries the same baseline headers.
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+
+const ALLOWED_HEADERS = 'Content-Type, Accept';
+const PREFLIGHT_MAX_AGE_SECONDS = 600;
+const DEV_ORIGINS = ['http://localhost:5173', 'http://127.0.0.1:5173'];
+
+// ALLOWED_ORIGINS is a comma-separated list, e.g. "https://shop.example.com,https://www.shop.example.com".
+// The deployment's own URLs are always allowed, and the Vite dev server only in local development.
+// Custom and www. domains need no entry: isOriginAllowed accepts the host the request was sent to.
+export const getAllowedOrigins = (): Set<string> => {
+  const origins = new Set(
+    (process.env.ALLOWED_ORIGINS || '')
+      .split(',')
+      .map(origin => origin.trim().replace(/\/$/, ''))
+      .filter(Boolean)
+  );
+  for (const host of [process.env.VERCEL_URL, process.env.VERCEL_BRANCH_URL, process.env.VERCEL_PROJECT_PRODUCTION_URL]) {
+    if (host) {
+      origins.add(`https://${host}`);
+    }
+  }
+  // VERCEL_ENV is unset outside Vercel and "development" under `vercel dev`; previews are public
+  if (!process.env.VERCEL_ENV || process.env.VERCEL_ENV === 'development') {
+    DEV_ORIGINS.forEach(origin => origins.add(origin));
+  }
+  return origins;
+};
+
+const firstHeader = (value: string | string[] | undefined): string | undefined => {
+  return (Array.isArray(value) ? value[0] : value)?.split(',')[0]?.trim() || undefined;
+};
+
+// Browsers send Origin on same-origin POSTs too, so a page served from the host the
+// request went to (any custom domain, www. or preview URL) is one of ours
+const isSameHost = (req: VercelRequest, origin: string): boolean => {
+  const host = firstHeader(req.headers['x-forwarded-host']) ?? firstHeader(req.headers.host);
+  if (!host) return false;
+  try {
+    return new URL(origin).host === host.toLowerCase();
+  } catch {
+    return false;
+  }
+};
+
+// Whether a page on this origin belongs to the storefront, e.g. a payment return URL
+export const isStorefrontOrigin = (req: VercelRequest, origin: string): boolean => {
+  return isSameHost(req, origin) || getAllowedOrigins().has(origin);
+};
+
+export const applySecurityHeaders = (res: VercelResponse) => {
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  res.setHeader('Referrer-Policy', 'strict-origin-when-cross-origin');
+  res.setHeader('X-Frame-Options', 'DENY');
+  res.setHeader('Content-Security-Policy', "default-src 'none'; frame-ancestors 'none'");
+  res.setHeader('Cache-Control', 'no-store');
+  // The CORS headers below differ per origin, so caches must key on it
+  res.setHeader('Vary', 'Origin');
+};
+
+const getOrigin = (req: VercelRequest): string | undefined => {
+  const origin = req.headers.origin;
+  return Array.isArray(origin) ? origin[0] : origin;
+};
+
+// Requests without an Origin header (same-origin navigation, server-to-server) carry no
+// CORS risk; a present but unknown origin is refused.
+export const isOriginAllowed = (req: VercelRequest): boolean => {
+  const origin = getOrigin(req);
+  return !origin || isStorefrontOrigin(req, origin);
+};
+
+export const applyCorsHeaders = (req: VercelRequest, res: VercelResponse, methods: readonly string[]) => {
+  const origin = getOrigin(req);
+  if (!origin || !isStorefrontOrigin(req, origin)) {
+    return;
+  }
+  res.setHeader('Access-Control-Allow-Origin', origin);
+  res.setHeader('Access-Control-Allow-Methods', [...methods, 'OPTIONS'].join(', '));
+  res.setHeader('Access-Control-Allow-Headers', ALLOWED_HEADERS);
+  res.setHeader('Access-Control-Max-Age', String(PREFLIGHT_MAX_AGE_SECONDS));
+};
@@ -0,0 +1,36 @@
+// The discount code failures the storefront tells apart. Zoho reports these with its own
+// codes, which differ between store versions, so the proxy answers apply-coupon failures
+// with the codes below instead: recognised by the store's status_message, with the store's
+// own code kept in store_status_code. The storefront and the mock backend use the same codes.
+
+export const COUPON_INVALID = '3001';
+export const COUPON_EXPIRED = '3002';
+// With payload.minimum_amount (or minimum_order_value) when the store sends the threshold
+export const COUPON_MINIMUM_SPEND = '3003';
+
+const COUPON_CODES = new Set([COUPON_INVALID, COUPON_EXPIRED, COUPON_MINIMUM_SPEND]);
+
+// Checked in order: an expired code is often also reported as "not valid"
+const MESSAGE_PATTERNS: [RegExp, string][] = [
+  [/expired|no longer (valid|active|available)/i, COUPON_EXPIRED],
+  [/minimum|at least|spend more|order (amount|value|total)/i, COUPON_MINIMUM_SPEND],
+  [/invalid|not valid|not found|does not exist|doesn't exist|not applicable|cannot be applied|no such/i, COUPON_INVALID],
+];
+
+const asRecord = (value: unknown): Record<string, unknown> | undefined => {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : undefined;
+};
+
+// Rewrites an apply-coupon failure from n8n onto the codes above; anything it doesn't
+// recognise is passed on unchanged and the storefront shows the store's message
+export const normalizeCouponError = (data: unknown): unknown => {
+  const response = asRecord(data);
+  const code = response?.status_code;
+  if (!response || code === undefined || code === null || String(code) === '0' || COUPON_CODES.has(String(code))) {
+    return data;
+  }
+
+  const message = typeof response.status_message === 'string' ? response.status_message : '';
+  const match = MESSAGE_PATTERNS.find(([pattern]) => pattern.test(message));
+  return match ? { ...response, status_code: match[1], store_status_code: String(code) } : data;
+};
@@ -0,0 +1,275 @@
+// Server-side registry of the n8n functions the proxy is willing to relay.
+// Anything not listed here, or with a body that doesn't match its schema,
+// is rejected before the request (and our auth key) ever reaches n8n.
+
+import type { RateLimitRule } from './rateLimit.js';
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+type FieldRule =
+  | { type: 'string'; required?: boolean; maxLength?: number; pattern?: RegExp }
+  | { type: 'integer'; required?: boolean; min?: number; max?: number }
+  | { type: 'boolean'; required?: boolean }
+  | { type: 'object'; required?: boolean; fields: BodySchema };
+
+type BodySchema = Record<string, FieldRule>;
+
+export interface FunctionDefinition {
+  // HTTP methods the function may be called with; drives CORS and 405s
+  methods: readonly string[];
+  body: BodySchema;
+  // Serialized JSON size limit for the request body
+  maxBodyBytes: number;
+  // Per client (IP plus cart id)
+  rateLimit: RateLimitRule;
+}
+
+// Zoho ids are numeric strings; cart/checkout ids may also carry letters and dashes
+const ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+const ID: FieldRule = { type: 'string', required: true, maxLength: 64, pattern: ID_PATTERN };
+const OPTIONAL_ID: FieldRule = { type: 'string', maxLength: 64, pattern: ID_PATTERN };
+
+// Storefront pages the payment gateway sends the customer back to
+const URL_FIELD: FieldRule = { type: 'string', required: true, maxLength: 500, pattern: /^https?:\/\/\S+$/ };
+const PAYMENT_MODE: FieldRule = { type: 'string', required: true, maxLength: 50, pattern: /^[a-z_]+$/ };
+
+const SMALL_BODY = 1024;
+const POST_ONLY = ['POST'] as const;
+
+// Backstop across all functions, so rotating cart ids doesn't lift the per-function limits
+export const GLOBAL_RATE_LIMIT: RateLimitRule = { capacity: 120, refillPerMinute: 240 };
+
+const addressFields: BodySchema = {
+  first_name: { type: 'string', required: true, maxLength: 100 },
+  last_name: { type: 'string', maxLength: 100 },
+  email_address: { type: 'string', required: true, maxLength: 254 },
+  address: { type: 'string', required: true, maxLength: 300 },
+  street2: { type: 'string', maxLength: 300 },
+  city: { type: 'string', required: true, maxLength: 100 },
+  state: { type: 'string', maxLength: 100 },
+  postal_code: { type: 'string', maxLength: 20 },
+  telephone: { type: 'string', maxLength: 30 },
+  country: { type: 'string', required: true, maxLength: 100 },
+  same_billing_address: { type: 'boolean' },
+};
+
+export const FUNCTION_REGISTRY: Record<string, FunctionDefinition> = {
+  'get-products': {
+    methods: POST_ONLY,
+    body: {
+      page: { type: 'integer', required: true, min: 1, max: 1000 },
+      per_page: { type: 'integer', required: true, min: 1, max: 100 },
+    },
+    maxBodyBytes: SMALL_BODY,
+    rateLimit: { capacity: 60, refillPerMinute: 120 },
+  },
+  'get-product-detail': {
+    methods: POST_ONLY,
+    body: { variant_id: ID },
+    maxBodyBytes: SMALL_BODY,
+    rateLimit: { capacity: 60, refillPerMinute: 120 },
+  },
+  'add-to-cart': {
+    methods: POST_ONLY,
+    body: {
+      product_variant_id: ID,
+      quantity: { type: 'integer', required: true, min: 1, max: 999 },
+      cart_id: OPTIONAL_ID,
+    },
+    maxBodyBytes: SMALL_BODY,
+    rateLimit: { capacity: 10, refillPerMinute: 20 },
+  },
+  'get-cart': {
+    methods: POST_ONLY,
+    body: { cart_id: ID },
+    maxBodyBytes: SMALL_BODY,
+    rateLimit: { capacity: 30, refillPerMinute: 60 },
+  },
+  'remove-cart-item': {
+    methods: POST_ONLY,
+    body: { cart_id: ID, product_variant_id: ID },
+    maxBodyBytes: SMALL_BODY,
+    rateLimit: { capacity: 20, refillPerMinute: 40 },
+  },
+  'update-cart-item': {
+    methods: POST_ONLY,
+    body: {
+      cart_id: ID,
+      product_variant_id: ID,
+      quantity: { type: 'integer', required: true, min: 1, max: 999 },
+    },
+    maxBodyBytes: SMALL_BODY,
+    rateLimit: { capacity: 20, refillPerMinute: 40 },
+  },
+  // Tight limits, so codes can't be guessed by brute force
+  'apply-coupon': {
+    methods: POST_ONLY,
+    body: {
+      cart_id: ID,
+      coupon_code: { type: 'string', required: true, maxLength: 50, pattern: /^[A-Za-z0-9_-]+$/ },
+    },
+    maxBodyBytes: SMALL_BODY,
+    rateLimit: { capacity: 5, refillPerMinute: 5 },
+  },
+  'remove-coupon': {
+    methods: POST_ONLY,
+    body: { cart_id: ID },
+    maxBodyBytes: SMALL_BODY,
+    rateLimit: { capacity: 10, refillPerMinute: 20 },
+  },
+  'get-checkout-info': {
+    methods: POST_ONLY,
+    body: { checkout_id: ID },
+    maxBodyBytes: SMALL_BODY,
+    rateLimit: { capacity: 20, refillPerMinute: 30 },
+  },
+  'add-address': {
+    methods: POST_ONLY,
+    body: {
+      checkout_id: ID,
+      shipping_address: { type: 'object', required: true, fields: addressFields },
+      billing_address: { type: 'object', required: true, fields: addressFields },
+    },
+    maxBodyBytes: 8 * 1024,
+    rateLimit: { capacity: 5, refillPerMinute: 10 },
+  },
+  'add-shipping-methods': {
+    methods: POST_ONLY,
+    body: { checkout_id: ID, shipping: ID },
+    maxBodyBytes: SMALL_BODY,
+    rateLimit: { capacity: 10, refillPerMinute: 20 },
+  },
+  // Offline payment modes only; the proxy refuses hosted ones without a paid session
+  'place-order': {
+    methods: POST_ONLY,
+    body: {
+      checkout_id: ID,
+      payment_mode: PAYMENT_MODE,
+    },
+    maxBodyBytes: SMALL_BODY,
+    rateLimit: { capacity: 3, refillPerMinute: 5 },
+  },
+  'confirm-checkout': {
+    methods: POST_ONLY,
+    body: {
+      checkout_id: ID,
+      shipping: OPTIONAL_ID,
+      payment_mode: { type: 'string', maxLength: 50, pattern: /^[a-z_]+$/ },
+      // Set for card payments; the proxy checks the session was paid first
+      payment_session_id: OPTIONAL_ID,
+    },
+    maxBodyBytes: SMALL_BODY,
+    rateLimit: { capacity: 3, refillPerMinute: 5 },
+  },
+  // order_token is issued with the order by place-order / confirm-checkout (see orderTokens.ts)
+  'get-order': {
+    methods: POST_ONLY,
+    body: {
+      salesorder_id: ID,
+      order_token: { type: 'string', required: true, maxLength: 64, pattern: ID_PATTERN },
+    },
+    maxBodyBytes: SMALL_BODY,
+    rateLimit: { capacity: 20, refillPerMinute: 30 },
+  },
+  // Answered by the proxy's payment provider rather than n8n (see payments.ts)
+  'create-payment-session': {
+    methods: POST_ONLY,
+    body: { checkout_id: ID, payment_mode: PAYMENT_MODE, return_url: URL_FIELD, cancel_url: URL_FIELD },
+    maxBodyBytes: 2 * SMALL_BODY,
+    rateLimit: { capacity: 5, refillPerMinute: 10 },
+  },
+  'get-payment-session': {
+    methods: POST_ONLY,
+    body: { session_id: ID },
+    maxBodyBytes: SMALL_BODY,
+    rateLimit: { capacity: 30, refillPerMinute: 60 },
+  },
+  'complete-fake-payment': {
+    methods: POST_ONLY,
+    body: {
+      session_id: ID,
+      outcome: { type: 'string', required: true, pattern: /^(paid|failed|cancelled)$/ },
+    },
+    maxBodyBytes: SMALL_BODY,
+    rateLimit: { capacity: 5, refillPerMinute: 10 },
+  },
+};
+
+export const getFunctionDefinition = (name: string): FunctionDefinition | undefined => {
+  return Object.prototype.hasOwnProperty.call(FUNCTION_REGISTRY, name) ? FUNCTION_REGISTRY[name] : undefined;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const validateField = (rule: FieldRule, value: unknown, path: string, issues: ValidationIssue[]) => {
+  switch (rule.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        issues.push({ path, message: 'must be a string' });
+      } else if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+        issues.push({ path, message: `must be at most ${rule.maxLength} characters` });
+      } else if (rule.pattern && !rule.pattern.test(value)) {
+        issues.push({ path, message: 'has an invalid format' });
+      }
+      return;
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isInteger(value)) {
+        issues.push({ path, message: 'must be an integer' });
+      } else if ((rule.min !== undefined && value < rule.min) || (rule.max !== undefined && value > rule.max)) {
+        issues.push({ path, message: `must be between ${rule.min ?? '-∞'} and ${rule.max ?? '∞'}` });
+      }
+      return;
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        issues.push({ path, message: 'must be a boolean' });
+      }
+      return;
+    case 'object':
+      validateObject(rule.fields, value, path, issues);
+      return;
+  }
+};
+
+// Strict: unknown fields are rejected so the proxy can't be used to smuggle extra data to n8n
+const validateObject = (schema: BodySchema, value: unknown, path: string, issues: ValidationIssue[]) => {
+  if (!isPlainObject(value)) {
+    issues.push({ path: path || '(body)', message: 'must be a JSON object' });
+    return;
+  }
+
+  for (const key of Object.keys(value)) {
+    if (!Object.prototype.hasOwnProperty.call(schema, key)) {
+      issues.push({ path: path ? `${path}.${key}` : key, message: 'is not allowed' });
+    }
+  }
+
+  for (const [key, rule] of Object.entries(schema)) {
+    const fieldPath = path ? `${path}.${key}` : key;
+    const fieldValue = value[key];
+    if (fieldValue === undefined || fieldValue === null) {
+      if (rule.required) {
+        issues.push({ path: fieldPath, message: 'is required' });
+      }
+      continue;
+    }
+    validateField(rule, fieldValue, fieldPath, issues);
+  }
+};
+
+export const validateRequestBody = (definition: FunctionDefinition, body: unknown): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+
+  const size = Buffer.byteLength(JSON.stringify(body ?? null), 'utf8');
+  if (size > definition.maxBodyBytes) {
+    issues.push({ path: '(body)', message: `must be at most ${definition.maxBodyBytes} bytes` });
+    return issues;
+  }
+
+  validateObject(definition.body, body, '', issues);
+  return issues;
+};
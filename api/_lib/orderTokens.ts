@@ -0,0 +1,35 @@
+// Signed order tokens. get-order returns the buyer's name, address and contact details,
+// so the proxy only looks an order up for whoever holds the token it issued when the order
+// was placed. Sales order ids alone are guessable.
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+export const signOrderToken = (salesorderId: string, secret: string): string => {
+  return createHmac('sha256', secret).update(`order:${salesorderId}`).digest('base64url');
+};
+
+export const verifyOrderToken = (salesorderId: string, token: unknown, secret: string): boolean => {
+  if (typeof token !== 'string') return false;
+  const expected = Buffer.from(signOrderToken(salesorderId, secret));
+  const actual = Buffer.from(token);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+const asRecord = (value: unknown): Record<string, unknown> | undefined => {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : undefined;
+};
+
+// Adds payload.order_token to a place-order or confirm-checkout response that carries an
+// order, wherever n8n put it (see findOrder in src/services/schemas.ts)
+export const withOrderToken = (data: unknown, secret: string): unknown => {
+  const response = asRecord(data);
+  const payload = asRecord(response?.payload);
+  if (!response || !payload) return data;
+
+  const order = asRecord(payload.order) ?? asRecord(payload.salesorder) ?? payload;
+  const salesorderId = order.salesorder_id;
+  if ((typeof salesorderId !== 'string' && typeof salesorderId !== 'number') || salesorderId === '') {
+    return data;
+  }
+  return { ...response, payload: { ...payload, order_token: signOrderToken(String(salesorderId), secret) } };
+};
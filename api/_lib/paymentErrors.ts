@@ -0,0 +1,20 @@
+// Failure answers for card payments, in n8n's status_code shape. Kept apart from payments.ts
+// (which needs node:crypto) so the mock backend, which also runs in the browser, answers
+// with exactly the same codes as the proxy.
+
+export const PAYMENT_ERRORS = {
+  unavailable: { status_code: '2001', status_message: 'Card payments are not available right now.' },
+  invalidUrl: { status_code: '2002', status_message: 'Invalid return or cancel URL.' },
+  totalUnavailable: { status_code: '2003', status_message: 'Could not get the order total for this checkout.' },
+  sessionNotFound: { status_code: '2004', status_message: 'Payment session not found.' },
+  providerHosted: { status_code: '2005', status_message: 'This payment provider has its own hosted page.' },
+  notCompleted: { status_code: '2006', status_message: 'This payment has not been completed.' },
+  totalChanged: {
+    status_code: '2007',
+    status_message: 'Your order total changed after payment. Please contact us to settle the difference.',
+  },
+} as const;
+
+export type PaymentErrorKind = keyof typeof PAYMENT_ERRORS;
+
+export const paymentError = (kind: PaymentErrorKind): Record<string, unknown> => ({ ...PAYMENT_ERRORS[kind] });
@@ -0,0 +1,235 @@
+// Hosted card payments. The proxy answers the payment functions itself rather than
+// relaying them to n8n: it prices the checkout through n8n, opens a session with the
+// configured provider, and checks the session was paid before a hosted-mode order goes through.
+
+import { randomUUID } from 'node:crypto';
+import { paymentError } from './paymentErrors.js';
+
+export type PaymentSessionStatus = 'open' | 'paid' | 'failed' | 'cancelled';
+
+export interface PaymentSession {
+  id: string;
+  checkoutId: string;
+  amount: number;
+  currencyCode: string;
+  status: PaymentSessionStatus;
+  // The provider's hosted page
+  redirectUrl: string;
+  returnUrl: string;
+  cancelUrl: string;
+}
+
+export interface CreatePaymentSessionInput {
+  checkoutId: string;
+  amount: number;
+  currencyCode: string;
+  returnUrl: string;
+  cancelUrl: string;
+}
+
+export type FakePaymentOutcome = Exclude<PaymentSessionStatus, 'open'>;
+
+export interface PaymentProvider {
+  name: string;
+  createSession: (input: CreatePaymentSessionInput) => Promise<PaymentSession>;
+  getSession: (sessionId: string) => Promise<PaymentSession | undefined>;
+  // Only the fake provider: what its hosted page reports when the customer pays, is declined or cancels
+  completeSession?: (sessionId: string, outcome: FakePaymentOutcome) => Promise<PaymentSession | undefined>;
+}
+
+// Sessions live in memory, so this only suits local testing and single-instance previews.
+// Its hosted page is the storefront's own /payment/fake-gateway route.
+export const createFakePaymentProvider = (): PaymentProvider => {
+  const sessions = new Map<string, PaymentSession>();
+
+  return {
+    name: 'fake',
+    createSession: async (input) => {
+      const id = `fake_${randomUUID().replace(/-/g, '')}`;
+      const gateway = new URL('/payment/fake-gateway', input.returnUrl);
+      gateway.searchParams.set('session_id', id);
+      const session: PaymentSession = { ...input, id, status: 'open', redirectUrl: gateway.toString() };
+      sessions.set(id, session);
+      return session;
+    },
+    getSession: async (sessionId) => sessions.get(sessionId),
+    completeSession: async (sessionId, outcome) => {
+      const session = sessions.get(sessionId);
+      if (!session || session.status !== 'open') return session;
+      session.status = outcome;
+      return session;
+    },
+  };
+};
+
+// PAYMENT_PROVIDER picks the gateway; card payments are off when it is unset
+export const createPaymentProvider = (): PaymentProvider | undefined => {
+  switch (process.env.PAYMENT_PROVIDER) {
+    case 'fake':
+      return createFakePaymentProvider();
+    case undefined:
+    case '':
+      return undefined;
+    default:
+      console.error(`Unknown PAYMENT_PROVIDER "${process.env.PAYMENT_PROVIDER}"; card payments are disabled`);
+      return undefined;
+  }
+};
+
+export const PAYMENT_FUNCTIONS = ['create-payment-session', 'get-payment-session', 'complete-fake-payment'] as const;
+
+export type PaymentFunctionName = typeof PAYMENT_FUNCTIONS[number];
+
+export const isPaymentFunction = (name: string): name is PaymentFunctionName => {
+  return (PAYMENT_FUNCTIONS as readonly string[]).includes(name);
+};
+
+// Both place an order, so both need a paid session for hosted payment modes
+export const ORDER_FUNCTIONS = new Set(['place-order', 'confirm-checkout']);
+
+export interface CheckoutTotal {
+  amount: number;
+  currencyCode: string;
+}
+
+export interface StorePaymentMode {
+  id: string;
+  hosted: boolean;
+}
+
+// What the store says about a checkout, from get-checkout-info
+export interface CheckoutInfo {
+  // Missing when the store could not price the checkout
+  total?: CheckoutTotal;
+  paymentModes: StorePaymentMode[];
+}
+
+export interface PaymentContext {
+  provider: PaymentProvider | undefined;
+  // Priced by the store, so neither the amount nor the payment modes come from the browser
+  getCheckoutInfo: (checkoutId: string) => Promise<CheckoutInfo | undefined>;
+  // Return and cancel pages must be on one of our storefronts, or the gateway becomes an open redirect
+  isStorefrontOrigin: (origin: string) => boolean;
+}
+
+// The storefront offers these when the store sends no payment modes of its own (see
+// PAYMENT_MODES in src/utils/checkoutProgress.ts); none of them is paid online
+const DEFAULT_PAYMENT_MODES: StorePaymentMode[] = [
+  { id: 'cash_on_delivery', hosted: false },
+  { id: 'bank_transfer', hosted: false },
+  { id: 'cheque', hosted: false },
+];
+
+// Anything the store doesn't list as paid outside a session is treated as hosted
+const requiresPaidSession = (info: CheckoutInfo, paymentMode: string): boolean => {
+  const modes = info.paymentModes.length > 0 ? info.paymentModes : DEFAULT_PAYMENT_MODES;
+  const mode = modes.find(entry => entry.id === paymentMode);
+  return !mode || mode.hosted;
+};
+
+type Body = Record<string, unknown>;
+type FunctionResult = Record<string, unknown>;
+
+// Answers in n8n's shape, so the storefront parses them like any other function
+const success = (payload: unknown): FunctionResult => ({ status_code: '0', status_message: 'success', payload });
+
+const withSessionId = (url: string, sessionId: string): string => {
+  const target = new URL(url);
+  target.searchParams.set('session_id', sessionId);
+  return target.toString();
+};
+
+const toWire = (session: PaymentSession) => ({
+  session_id: session.id,
+  checkout_id: session.checkoutId,
+  status: session.status,
+  amount: session.amount,
+  currency_code: session.currencyCode,
+  redirect_url: session.redirectUrl,
+});
+
+const isStorefrontUrl = (value: unknown, context: PaymentContext): value is string => {
+  if (typeof value !== 'string') return false;
+  try {
+    return context.isStorefrontOrigin(new URL(value).origin);
+  } catch {
+    return false;
+  }
+};
+
+export const handlePaymentFunction = async (
+  name: PaymentFunctionName,
+  body: Body,
+  context: PaymentContext
+): Promise<FunctionResult> => {
+  const { provider } = context;
+  if (!provider) {
+    return paymentError('unavailable');
+  }
+
+  switch (name) {
+    case 'create-payment-session': {
+      if (!isStorefrontUrl(body.return_url, context) || !isStorefrontUrl(body.cancel_url, context)) {
+        return paymentError('invalidUrl');
+      }
+      const checkoutId = String(body.checkout_id);
+      const total = (await context.getCheckoutInfo(checkoutId))?.total;
+      if (!total || !(total.amount > 0)) {
+        return paymentError('totalUnavailable');
+      }
+      const session = await provider.createSession({
+        checkoutId,
+        amount: total.amount,
+        currencyCode: total.currencyCode,
+        returnUrl: body.return_url,
+        cancelUrl: body.cancel_url,
+      });
+      return success({ session: toWire(session) });
+    }
+
+    case 'get-payment-session': {
+      const session = await provider.getSession(String(body.session_id));
+      return session ? success({ session: toWire(session) }) : paymentError('sessionNotFound');
+    }
+
+    case 'complete-fake-payment': {
+      if (!provider.completeSession) {
+        return paymentError('providerHosted');
+      }
+      const session = await provider.completeSession(String(body.session_id), body.outcome as FakePaymentOutcome);
+      if (!session) {
+        return paymentError('sessionNotFound');
+      }
+      const next = session.status === 'cancelled' ? session.cancelUrl : session.returnUrl;
+      return success({ session: toWire(session), continue_url: withSessionId(next, session.id) });
+    }
+  }
+};
+
+// An order paid by card only reaches n8n once its session is paid, for this checkout and
+// for what the checkout costs now. place-order takes no session, so card orders never pass there.
+export const verifyPaidSession = async (body: Body, context: PaymentContext): Promise<FunctionResult | null> => {
+  const info = await context.getCheckoutInfo(String(body.checkout_id));
+  if (!info) {
+    return paymentError('totalUnavailable');
+  }
+  // confirm-checkout defaults to cash on delivery when no mode is sent
+  if (!requiresPaidSession(info, typeof body.payment_mode === 'string' ? body.payment_mode : 'cash_on_delivery')) {
+    return null;
+  }
+  if (typeof body.payment_session_id !== 'string') {
+    return paymentError('notCompleted');
+  }
+  const session = context.provider ? await context.provider.getSession(body.payment_session_id) : undefined;
+  if (!session || session.checkoutId !== body.checkout_id) {
+    return paymentError('sessionNotFound');
+  }
+  if (session.status !== 'paid') {
+    return paymentError('notCompleted');
+  }
+  const total = info.total;
+  if (!total || Math.abs(total.amount - session.amount) >= 0.005) {
+    return paymentError('totalChanged');
+  }
+  return null;
+};
@@ -0,0 +1,109 @@
+// Token-bucket rate limiting for the webhook proxy. Bucket state lives behind
+// RateLimitStore so the in-memory default can be swapped for a shared store
+// (Redis, Vercel KV) without touching the limiter. Both API routes key clients and
+// answer over-limit requests through the helpers at the bottom, so they agree.
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+
+export interface RateLimitRule {
+  // Burst size: requests allowed back to back
+  capacity: number;
+  // Sustained rate once the burst is used up
+  refillPerMinute: number;
+}
+
+export interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitStore {
+  get(key: string): Promise<BucketState | undefined>;
+  // ttlMs: how long the state is worth keeping (time until the bucket is full again)
+  set(key: string, state: BucketState, ttlMs: number): Promise<void>;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  // Time until the next token is available; 0 when allowed
+  retryAfterMs: number;
+}
+
+// Per-instance memory: each serverless instance counts on its own, which still stops
+// a single client hammering one warm instance. Plug in a shared store for strict limits.
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly buckets = new Map<string, { state: BucketState; expiresAt: number }>();
+  private readonly maxEntries: number;
+
+  constructor(maxEntries = 10000) {
+    this.maxEntries = maxEntries;
+  }
+
+  async get(key: string): Promise<BucketState | undefined> {
+    const entry = this.buckets.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.buckets.delete(key);
+      return undefined;
+    }
+    return entry.state;
+  }
+
+  async set(key: string, state: BucketState, ttlMs: number): Promise<void> {
+    if (this.buckets.size >= this.maxEntries && !this.buckets.has(key)) {
+      this.evictExpired();
+      // Still full: drop the oldest insertion rather than grow without bound
+      if (this.buckets.size >= this.maxEntries) {
+        const oldestKey = this.buckets.keys().next().value;
+        if (oldestKey !== undefined) this.buckets.delete(oldestKey);
+      }
+    }
+    this.buckets.set(key, { state, expiresAt: Date.now() + ttlMs });
+  }
+
+  private evictExpired() {
+    const now = Date.now();
+    for (const [key, entry] of this.buckets) {
+      if (entry.expiresAt <= now) this.buckets.delete(key);
+    }
+  }
+}
+
+export const createRateLimiter = (store: RateLimitStore) => {
+  return async (key: string, rule: RateLimitRule): Promise<RateLimitResult> => {
+    const now = Date.now();
+    const refillPerMs = rule.refillPerMinute / 60000;
+    const previous = await store.get(key);
+
+    const tokens = previous
+      ? Math.min(rule.capacity, previous.tokens + (now - previous.updatedAt) * refillPerMs)
+      : rule.capacity;
+
+    if (tokens < 1) {
+      await store.set(key, { tokens, updatedAt: now }, Math.ceil(rule.capacity / refillPerMs));
+      return { allowed: false, remaining: 0, retryAfterMs: Math.ceil((1 - tokens) / refillPerMs) };
+    }
+
+    const remaining = tokens - 1;
+    await store.set(key, { tokens: remaining, updatedAt: now }, Math.ceil((rule.capacity - remaining) / refillPerMs));
+    return { allowed: true, remaining: Math.floor(remaining), retryAfterMs: 0 };
+  };
+};
+
+export const getClientIp = (req: VercelRequest): string => {
+  const forwardedFor = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor)?.split(',')[0]?.trim();
+  const realIp = req.headers['x-real-ip'];
+  return first || (Array.isArray(realIp) ? realIp[0] : realIp) || req.socket?.remoteAddress || 'unknown';
+};
+
+export const sendRateLimited = (res: VercelResponse, retryAfterMs: number) => {
+  const retryAfterSeconds = Math.max(1, Math.ceil(retryAfterMs / 1000));
+  res.setHeader('Retry-After', String(retryAfterSeconds));
+  res.status(429).json({
+    error: 'rate_limited',
+    message: `Too many requests. Please try again in ${retryAfterSeconds} seconds.`,
+    retry_after: retryAfterSeconds,
+  });
+};
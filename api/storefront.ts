@@ -0,0 +1,116 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { GLOBAL_RATE_LIMIT } from './_lib/functionRegistry.js';
+import { MemoryRateLimitStore, createRateLimiter, getClientIp, sendRateLimited } from './_lib/rateLimit.js';
+import { applyCorsHeaders, applySecurityHeaders, isOriginAllowed } from './_lib/cors.js';
+
+// Read-only relay to the Zoho Commerce Storefront API for VITE_BACKEND=zoho. vercel.json
+// rewrites /api/storefront/<path> here; only the catalog paths below are passed on, with
+// the store's domain-name header the API identifies the store by.
+
+const checkRateLimit = createRateLimiter(new MemoryRateLimitStore());
+
+const CATALOG_RATE_LIMIT = { capacity: 60, refillPerMinute: 120 };
+const GET_ONLY = ['GET'] as const;
+
+// products, or products/<product id>
+const PATH_PATTERN = /^products(\/[A-Za-z0-9_-]{1,64})?$/;
+
+const getStorefrontBaseUrl = () => {
+  const base = process.env.ZOHO_API_BASE_URL || process.env.VITE_API_BASE_URL || 'https://commerce.zoho.com';
+  return `${base.replace(/\/$/, '')}/storefront/api/v1`;
+};
+
+// Same default as the Vite dev proxy
+const getDomainName = () => {
+  return process.env.ZOHO_DOMAIN_NAME || process.env.VITE_DOMAIN_NAME || 'activepharm.zohoecommerce.com';
+};
+
+const getPath = (req: VercelRequest): string => {
+  const path = req.query.path;
+  return (Array.isArray(path) ? path.join('/') : path || '').replace(/^\/+|\/+$/g, '');
+};
+
+// Only paging for the listing; nothing else from the browser is forwarded
+const getListingQuery = (req: VercelRequest): URLSearchParams | null => {
+  const query = new URLSearchParams();
+  for (const [name, max] of [['page', 1000], ['per_page', 100]] as const) {
+    const raw = req.query[name];
+    if (raw === undefined) continue;
+    const value = Number(Array.isArray(raw) ? raw[0] : raw);
+    if (!Number.isInteger(value) || value < 1 || value > max) {
+      return null;
+    }
+    query.set(name, String(value));
+  }
+  return query;
+};
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  applySecurityHeaders(res);
+
+  if (!isOriginAllowed(req)) {
+    res.status(403).json({
+      error: 'origin_not_allowed',
+      message: 'This origin is not allowed to call the store API',
+    });
+    return;
+  }
+
+  const clientIp = getClientIp(req);
+  for (const [key, rule] of [[`ip:${clientIp}`, GLOBAL_RATE_LIMIT], [`catalog:${clientIp}`, CATALOG_RATE_LIMIT]] as const) {
+    const limit = await checkRateLimit(key, rule);
+    if (!limit.allowed) {
+      sendRateLimited(res, limit.retryAfterMs);
+      return;
+    }
+  }
+
+  applyCorsHeaders(req, res, GET_ONLY);
+
+  if (req.method === 'OPTIONS') {
+    res.status(204).end();
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET, OPTIONS');
+    res.status(405).json({ error: 'method_not_allowed', message: `The store API does not accept ${req.method} requests` });
+    return;
+  }
+
+  const path = getPath(req);
+  const query = path === 'products' ? getListingQuery(req) : new URLSearchParams();
+  if (!PATH_PATTERN.test(path) || !query) {
+    res.status(400).json({ error: 'invalid_request', message: 'Unsupported store API request' });
+    return;
+  }
+
+  const domainName = getDomainName();
+  try {
+    const search = query.toString();
+    const response = await fetch(`${getStorefrontBaseUrl()}/${path}${search ? `?${search}` : ''}`, {
+      headers: {
+        'Accept': 'application/json',
+        'domain-name': domainName,
+        'X-Zoho-Domain': domainName,
+        'Origin': `https://${domainName}`,
+      },
+    });
+
+    const data = await response.text();
+    try {
+      res.status(response.status).json(JSON.parse(data));
+    } catch {
+      res.status(response.status).json(data);
+    }
+  } catch (error) {
+    console.error('Storefront proxy error:', error);
+    res.status(502).json({
+      error: 'Failed to reach the store API',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -1,30 +1,173 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { GLOBAL_RATE_LIMIT, getFunctionDefinition, validateRequestBody } from './_lib/functionRegistry.js';
+import { MemoryRateLimitStore, createRateLimiter, getClientIp, sendRateLimited } from './_lib/rateLimit.js';
+import { applyCorsHeaders, applySecurityHeaders, isOriginAllowed, isStorefrontOrigin } from './_lib/cors.js';
+import { verifyOrderToken, withOrderToken } from './_lib/orderTokens.js';
+import { normalizeCouponError } from './_lib/coupons.js';
+import {
+  createPaymentProvider,
+  handlePaymentFunction,
+  ORDER_FUNCTIONS,
+  isPaymentFunction,
+  verifyPaidSession,
+  type CheckoutInfo,
+  type PaymentContext,
+  type StorePaymentMode,
+} from './_lib/payments.js';
+
+// Swap in a shared RateLimitStore here to enforce limits across instances
+const checkRateLimit = createRateLimiter(new MemoryRateLimitStore());
+
+const paymentProvider = createPaymentProvider();
+
+const WEBHOOK_BASE_URL = 'https://n8n.impactwebstudio.ca/webhook/active-pharma';
+const DEFAULT_CURRENCY_CODE = 'CAD';
+
+const getCartKey = (body: unknown): string => {
+  if (!body || typeof body !== 'object') return '-';
+  const { cart_id: cartId, checkout_id: checkoutId } = body as { cart_id?: unknown; checkout_id?: unknown };
+  const id = cartId ?? checkoutId;
+  return typeof id === 'string' && id ? id : '-';
+};
+
+const parseBody = (body: unknown): unknown => {
+  // Vercel only parses JSON when the content type says so
+  if (typeof body !== 'string') {
+    return body;
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+};
+
+// Forward one function call to n8n; nothing but the validated function name and body is sent
+const callN8n = async (functionName: string, body: unknown, authKey: string) => {
+  const targetUrl = `${WEBHOOK_BASE_URL}?${new URLSearchParams({ function: functionName }).toString()}`;
+  const response = await fetch(targetUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+      'key': authKey,
+    },
+    body: JSON.stringify(body),
+  });
+
+  const data = await response.text();
+  try {
+    return { status: response.status, data: JSON.parse(data) as unknown };
+  } catch {
+    return { status: response.status, data: data as unknown };
+  }
+};
+
+const asRecord = (value: unknown): Record<string, unknown> => {
+  return value && typeof value === 'object' ? value as Record<string, unknown> : {};
+};
+
+// Same aliases as paymentModeSchema in src/services/schemas.ts
+const toStorePaymentMode = (value: unknown): StorePaymentMode[] => {
+  const mode = asRecord(value);
+  const id = mode.id ?? mode.payment_mode;
+  const hosted = mode.hosted ?? mode.is_hosted;
+  return typeof id === 'string' && id ? [{ id, hosted: hosted === true || hosted === 'true' }] : [];
+};
+
+// The checkout's order total and payment modes as n8n reports them from get-checkout-info
+const getCheckoutInfo = async (checkoutId: string, authKey: string): Promise<CheckoutInfo | undefined> => {
+  const { status, data } = await callN8n('get-checkout-info', { checkout_id: checkoutId }, authKey);
+  const response = asRecord(data);
+  if (status !== 200 || String(response.status_code ?? '0') !== '0') {
+    return undefined;
+  }
+  const checkout = asRecord(asRecord(response.payload).checkout);
+  const order = asRecord(checkout.order);
+  const paymentModes = Array.isArray(checkout.payment_modes) ? checkout.payment_modes.flatMap(toStorePaymentMode) : [];
+  const amount = Number(order.total);
+  if (!Number.isFinite(amount)) {
+    return { paymentModes };
+  }
+  const currencyCode = order.currency_code ?? checkout.currency_code;
+  return {
+    total: { amount, currencyCode: typeof currencyCode === 'string' && currencyCode ? currencyCode : DEFAULT_CURRENCY_CODE },
+    paymentModes,
+  };
+};
 
 export default async function handler(
   req: VercelRequest,
   res: VercelResponse
 ) {
-  // Handle CORS preflight
+  // Set before anything else so every response, including errors, carries them
+  applySecurityHeaders(res);
+
+  if (!isOriginAllowed(req)) {
+    res.status(403).json({
+      error: 'origin_not_allowed',
+      message: 'This origin is not allowed to call the store API',
+    });
+    return;
+  }
+
+  // Every request from an address counts, including unknown and invalid ones
+  const clientIp = getClientIp(req);
+  const globalLimit = await checkRateLimit(`ip:${clientIp}`, GLOBAL_RATE_LIMIT);
+  if (!globalLimit.allowed) {
+    sendRateLimited(res, globalLimit.retryAfterMs);
+    return;
+  }
+
+  // Only functions in the registry are relayed, and only with a body that matches its schema
+  const functionParam = Array.isArray(req.query.function) ? req.query.function[0] : req.query.function;
+  const functionName = typeof functionParam === 'string' ? functionParam : '';
+  const definition = getFunctionDefinition(functionName);
+
+  if (!definition) {
+    res.status(400).json({
+      error: 'unknown_function',
+      message: functionName ? `Function "${functionName}" is not allowed` : 'Missing function parameter',
+    });
+    return;
+  }
+
+  applyCorsHeaders(req, res, definition.methods);
+
+  // CORS preflight
   if (req.method === 'OPTIONS') {
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept');
-    return res.status(200).end();
+    res.status(204).end();
+    return;
   }
 
-  // Construct the webhook URL with query parameters
-  const webhookBaseUrl = 'https://n8n.impactwebstudio.ca/webhook/active-pharma';
-  
-  // Get query parameters from request
-  const queryParams = new URLSearchParams();
-  Object.entries(req.query).forEach(([key, value]) => {
-    if (value) {
-      queryParams.append(key, Array.isArray(value) ? value[0] : value);
-    }
-  });
-  
-  const queryString = queryParams.toString();
-  const targetUrl = `${webhookBaseUrl}${queryString ? `?${queryString}` : ''}`;
+  if (!definition.methods.includes(req.method || '')) {
+    res.setHeader('Allow', [...definition.methods, 'OPTIONS'].join(', '));
+    res.status(405).json({
+      error: 'method_not_allowed',
+      message: `Function "${functionName}" does not accept ${req.method} requests`,
+    });
+    return;
+  }
+
+  const body = parseBody(req.body);
+  const issues = validateRequestBody(definition, body);
+  if (issues.length > 0) {
+    res.status(400).json({
+      error: 'invalid_request',
+      message: `Invalid request body for "${functionName}"`,
+      issues,
+    });
+    return;
+  }
+
+  const functionLimit = await checkRateLimit(
+    `fn:${functionName}:${clientIp}:${getCartKey(body)}`,
+    definition.rateLimit
+  );
+  if (!functionLimit.allowed) {
+    sendRateLimited(res, functionLimit.retryAfterMs);
+    return;
+  }
 
   // Get auth key from environment variable (required)
   const authKey = process.env.VITE_WEBHOOK_AUTH_KEY || process.env.WEBHOOK_AUTH_KEY;
@@ -37,45 +180,47 @@ export default async function handler(
     return;
   }
 
-  try {
-    // Prepare headers - always include auth key
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      'Accept': 'application/json',
-      'key': authKey, // Always include auth key header
-    };
+  // Falls back to the webhook key, which never leaves the server either
+  const orderTokenSecret = process.env.ORDER_TOKEN_SECRET || authKey;
 
-    // Forward the request to the webhook
-    const response = await fetch(targetUrl, {
-      method: req.method || 'POST',
-      headers,
-      body: req.method !== 'GET' && req.method !== 'HEAD' && req.body
-        ? JSON.stringify(req.body) 
-        : undefined,
-    });
+  const payments: PaymentContext = {
+    provider: paymentProvider,
+    getCheckoutInfo: checkoutId => getCheckoutInfo(checkoutId, authKey),
+    isStorefrontOrigin: origin => isStorefrontOrigin(req, origin),
+  };
 
-    // Get response data
-    const data = await response.text();
-    let jsonData;
-    try {
-      jsonData = JSON.parse(data);
-    } catch {
-      jsonData = data;
+  try {
+    // Payment sessions are handled here and never reach n8n
+    if (isPaymentFunction(functionName)) {
+      res.status(200).json(await handlePaymentFunction(functionName, asRecord(body), payments));
+      return;
+    }
+    if (ORDER_FUNCTIONS.has(functionName)) {
+      const unpaid = await verifyPaidSession(asRecord(body), payments);
+      if (unpaid) {
+        res.status(200).json(unpaid);
+        return;
+      }
+    }
+    // Same answer as a missing order, so ids can't be probed
+    if (functionName === 'get-order') {
+      const { salesorder_id: salesorderId, order_token: orderToken } = asRecord(body);
+      if (!verifyOrderToken(String(salesorderId), orderToken, orderTokenSecret)) {
+        res.status(200).json({ status_code: '1008', status_message: 'Order not found.' });
+        return;
+      }
     }
 
-    // Set CORS headers
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept');
-
-    // Forward the response
-    res.status(response.status).json(jsonData);
+    // Forward the request to the webhook
+    const { status, data } = await callN8n(functionName, body, authKey);
+    if (functionName === 'apply-coupon') {
+      res.status(status).json(normalizeCouponError(data));
+      return;
+    }
+    res.status(status).json(ORDER_FUNCTIONS.has(functionName) ? withOrderToken(data, orderTokenSecret) : data);
   } catch (error) {
     console.error('Webhook proxy error:', error);
-    
-    // Set CORS headers even on error
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    
+
     res.status(500).json({ 
       error: 'Failed to proxy webhook request',
       message: error instanceof Error ? error.message : 'Unknown error'
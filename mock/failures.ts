@@ -0,0 +1,57 @@
+// Failure injection for the mock backend. Configure it through env vars when the
+// server starts, per request with `?mock_fail=<kind>`, or at runtime by POSTing
+// JSON to /__mock/config.
+
+export const MOCK_FAILURE_KINDS = ['network', 'timeout', 'http500', 'business', 'malformed', 'rate-limit'] as const;
+
+export type MockFailureKind = typeof MOCK_FAILURE_KINDS[number];
+
+export interface MockFailureConfig {
+  // Added before every response
+  latencyMs: number;
+  // Chance (0-1) that a request fails with failureKind
+  failureRate: number;
+  failureKind: MockFailureKind;
+  // Restrict injected failures to these functions; empty means all of them
+  functions: string[];
+}
+
+export const isFailureKind = (value: unknown): value is MockFailureKind => {
+  return typeof value === 'string' && (MOCK_FAILURE_KINDS as readonly string[]).includes(value);
+};
+
+// MOCK_LATENCY_MS, MOCK_FAILURE_RATE, MOCK_FAILURE_KIND and MOCK_FAILURE_FUNCTIONS
+export const failureConfigFromEnv = (env: Record<string, string | undefined>): MockFailureConfig => ({
+  latencyMs: Math.max(0, Number(env.MOCK_LATENCY_MS) || 0),
+  failureRate: Math.min(1, Math.max(0, Number(env.MOCK_FAILURE_RATE) || 0)),
+  failureKind: isFailureKind(env.MOCK_FAILURE_KIND) ? env.MOCK_FAILURE_KIND : 'http500',
+  functions: (env.MOCK_FAILURE_FUNCTIONS || '').split(',').map(name => name.trim()).filter(Boolean),
+});
+
+export const mergeFailureConfig = (config: MockFailureConfig, update: unknown): MockFailureConfig => {
+  if (!update || typeof update !== 'object') {
+    return config;
+  }
+  const { latencyMs, failureRate, failureKind, functions } = update as Partial<Record<keyof MockFailureConfig, unknown>>;
+  return {
+    latencyMs: typeof latencyMs === 'number' ? Math.max(0, latencyMs) : config.latencyMs,
+    failureRate: typeof failureRate === 'number' ? Math.min(1, Math.max(0, failureRate)) : config.failureRate,
+    failureKind: isFailureKind(failureKind) ? failureKind : config.failureKind,
+    functions: Array.isArray(functions) ? functions.filter((name): name is string => typeof name === 'string') : config.functions,
+  };
+};
+
+// The failure to inject for this request, if any; a forced kind always wins
+export const pickFailure = (
+  config: MockFailureConfig,
+  functionName: string,
+  forced: string | null
+): MockFailureKind | null => {
+  if (isFailureKind(forced)) {
+    return forced;
+  }
+  if (config.functions.length > 0 && !config.functions.includes(functionName)) {
+    return null;
+  }
+  return Math.random() < config.failureRate ? config.failureKind : null;
+};
@@ -0,0 +1,193 @@
+// Fixture catalog in the shape Zoho returns through n8n. Enough products to span
+// two pages at the storefront's page size, with and without variants.
+
+import type { PriceBracket, Product, ProductImage, ProductVariant, StoreCurrency } from '../../src/types/product';
+
+export const MOCK_CURRENCY: StoreCurrency = {
+  code: 'CAD',
+  symbol: '$',
+  symbol_formatted: '$',
+  format: '###,##0.00',
+  symbol_on_left: true,
+  code_on_left: false,
+};
+
+interface ProductSeed {
+  name: string;
+  brand: string;
+  manufacturer: string;
+  category_id: string;
+  price: number;
+  label_price?: number;
+  stock: number;
+  // Attribute name and its values; one variant is created per value
+  attribute?: { name: string; values: string[] };
+  tags?: string[];
+  // Bulk discounts as [start quantity, percent off]; each bracket ends where the next starts
+  brackets?: [number, number][];
+}
+
+const CATEGORY_NAMES: Record<string, string> = {
+  'vitamins': 'Vitamins',
+  'supplements': 'Supplements',
+  'pain-relief': 'Pain Relief',
+  'allergy': 'Allergy',
+  'cold-flu': 'Cold & Flu',
+  'personal-care': 'Personal Care',
+  'devices': 'Medical Devices',
+};
+
+const SEEDS: ProductSeed[] = [
+  { name: 'Vitamin D3', brand: 'SunWell', manufacturer: 'SunWell Labs', category_id: 'vitamins', price: 12.99, stock: 120, attribute: { name: 'Strength', values: ['1000 IU', '2500 IU', '5000 IU'] } },
+  { name: 'Omega-3 Fish Oil', brand: 'OceanPure', manufacturer: 'OceanPure Inc.', category_id: 'supplements', price: 24.5, label_price: 29.99, stock: 40 },
+  { name: 'Ibuprofen Tablets', brand: 'ReliefRx', manufacturer: 'Relief Pharma', category_id: 'pain-relief', price: 8.49, stock: 200, attribute: { name: 'Count', values: ['24', '50', '100'] }, brackets: [[10, 10], [50, 20]] },
+  { name: 'Acetaminophen Extra Strength', brand: 'ReliefRx', manufacturer: 'Relief Pharma', category_id: 'pain-relief', price: 9.99, stock: 0 },
+  { name: 'Allergy Relief', brand: 'ClearAir', manufacturer: 'ClearAir Health', category_id: 'allergy', price: 15.75, label_price: 18.0, stock: 65 },
+  { name: 'Probiotic Complex', brand: 'GutGood', manufacturer: 'GutGood Nutrition', category_id: 'supplements', price: 32.0, stock: 18, attribute: { name: 'Capsules', values: ['30', '60'] } },
+  { name: 'Magnesium Citrate', brand: 'SunWell', manufacturer: 'SunWell Labs', category_id: 'vitamins', price: 14.25, stock: 75 },
+  { name: 'Cough Syrup', brand: 'ClearAir', manufacturer: 'ClearAir Health', category_id: 'cold-flu', price: 11.5, stock: 33, attribute: { name: 'Flavour', values: ['Cherry', 'Honey Lemon'] } },
+  { name: 'Hand Sanitizer', brand: 'PureHands', manufacturer: 'PureHands Co.', category_id: 'personal-care', price: 4.99, stock: 500, attribute: { name: 'Size', values: ['60 ml', '250 ml', '1 L'] }, brackets: [[12, 15], [48, 25]] },
+  { name: 'Digital Thermometer', brand: 'MediCheck', manufacturer: 'MediCheck Devices', category_id: 'devices', price: 19.99, stock: 12 },
+];
+
+const slugify = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+const image = (id: string, title: string, featured: boolean, order: number): ProductImage => ({
+  id,
+  url: `https://placehold.co/600x600?text=${encodeURIComponent(title)}`,
+  alternate_text: title,
+  title,
+  is_featured: featured,
+  is_placeholder_image: false,
+  order,
+});
+
+// Starts at 1 at the regular price, like Zoho price lists do, so every quantity has a bracket
+const priceBrackets = (seed: ProductSeed, price: number): PriceBracket[] => {
+  if (!seed.brackets) return [];
+  const brackets: [number, number][] = [[1, 0], ...seed.brackets];
+  return brackets.map(([start, percentOff], index) => ({
+    start_quantity: start,
+    end_quantity: index < brackets.length - 1 ? brackets[index + 1][0] - 1 : undefined,
+    price: Math.round(price * (100 - percentOff)) / 100,
+  }));
+};
+
+const variant = (
+  id: string,
+  seed: ProductSeed,
+  price: number,
+  stock: number,
+  option?: { id: string; name: string; value: string }
+): ProductVariant => ({
+  variant_id: id,
+  selling_price: price,
+  label_price: seed.label_price ?? 0,
+  stock_available: stock,
+  double_stock_available: stock,
+  is_out_of_stock: stock === 0,
+  is_available_for_purchase: stock > 0,
+  is_combo_product: false,
+  hide_add_to_cart: false,
+  hide_price: false,
+  show_add_to_quote: false,
+  isbn: '',
+  ean: '',
+  upc: '',
+  mpn: '',
+  hsn_or_sac: '',
+  sku: `SKU-${id}`,
+  manufacturer: seed.manufacturer,
+  maximum_order_quantity: '',
+  minimum_order_quantity: '1',
+  return_period_in_days: 30,
+  is_returnable: true,
+  is_deliverable: true,
+  options: option ? [option] : [],
+  images: [],
+  price_brackets: priceBrackets(seed, price),
+  product_type: 'goods',
+});
+
+const buildProduct = (seed: ProductSeed, index: number, edition: number): Product => {
+  const productId = String(4000000 + edition * 100 + index);
+  const name = edition === 0 ? seed.name : `${seed.name} (${['Value Pack', 'Travel Size'][edition - 1]})`;
+  const price = Math.round(seed.price * (1 + edition * 0.6) * 100) / 100;
+  const attributeId = `${productId}-attr`;
+
+  const variants = seed.attribute
+    ? seed.attribute.values.map((value, valueIndex) => variant(
+        `${productId}${valueIndex + 1}`,
+        seed,
+        Math.round(price * (1 + valueIndex * 0.35) * 100) / 100,
+        // Leave one option out of stock so the picker has something to disable
+        valueIndex === seed.attribute!.values.length - 1 && edition === 1 ? 0 : seed.stock,
+        { id: `${attributeId}-${valueIndex}`, name: seed.attribute!.name, value }
+      ))
+    : [variant(`${productId}1`, seed, price, seed.stock)];
+
+  return {
+    product_id: productId,
+    name,
+    handle: slugify(name),
+    url: `/products/${slugify(name)}/${productId}`,
+    short_description: `${name} by ${seed.brand}.`,
+    description: `<p>${name} from ${seed.manufacturer}. Fixture data for local development.</p>`,
+    brand: seed.brand,
+    manufacturer: seed.manufacturer,
+    category_id: seed.category_id,
+    category_name: CATEGORY_NAMES[seed.category_id] ?? '',
+    currency_code: MOCK_CURRENCY.code,
+    selling_price: variants[0].selling_price,
+    label_price: seed.label_price ?? 0,
+    on_sale: !!seed.label_price,
+    is_out_of_stock: variants.every(entry => entry.is_out_of_stock),
+    is_available_for_purchase: variants.some(entry => entry.is_available_for_purchase),
+    has_variants: !!seed.attribute,
+    has_variant_price: !!seed.attribute,
+    variants,
+    attributes: seed.attribute
+      ? [{
+          id: attributeId,
+          name: seed.attribute.name,
+          options: seed.attribute.values.map((value, valueIndex) => ({ id: `${attributeId}-${valueIndex}`, name: value })),
+        }]
+      : [],
+    images: [image(`${productId}-img`, name, true, 0)],
+    tags: seed.tags ?? [seed.category_id],
+    documents: [],
+    specification_group: [],
+    review_id: '',
+    type: 0,
+    starts_with: 0,
+    ends_with: 0,
+    unit: 'pcs',
+    status: true,
+    quick_look_url: '',
+    seo: { title: name, description: `${name} by ${seed.brand}` },
+    is_returnable: true,
+    is_deliverable: true,
+    is_stock_managed: true,
+    is_product_custom_fields_enabled: false,
+    is_product_price_brackets_available: !!seed.brackets,
+    is_input_custom_field_available: false,
+    is_product_review_enabled: false,
+    is_social_share_enabled: false,
+  };
+};
+
+// Three editions of every seed: 30 products, i.e. two pages of 24
+export const MOCK_PRODUCTS: Product[] = [0, 1, 2].flatMap(edition =>
+  SEEDS.map((seed, index) => buildProduct(seed, index, edition))
+);
+
+export const findMockProduct = (id: string): { product: Product; variant: ProductVariant } | undefined => {
+  for (const product of MOCK_PRODUCTS) {
+    const match = product.variants.find(entry => entry.variant_id === id)
+      ?? (product.product_id === id ? product.variants[0] : undefined);
+    if (match) {
+      return { product, variant: match };
+    }
+  }
+  return undefined;
+};
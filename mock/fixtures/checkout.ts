@@ -0,0 +1,151 @@
+// Checkout fixtures: a handful of countries and the shipping methods n8n offers
+// once an address has been submitted.
+
+// Wire shapes, declared here so the mock doesn't pull the browser-only api module into Node
+export interface MockCountry {
+  code: string;
+  mobile_code: string;
+  name: string;
+  states: Array<{ code: string; name: string }>;
+}
+
+export interface MockShippingMethod {
+  id: string;
+  name: string;
+  rate: number;
+  handling_fees: number;
+  delivery_time: string;
+  is_default: boolean;
+}
+
+export interface MockPaymentMode {
+  payment_mode: string;
+  name: string;
+  description: string;
+  instructions: string;
+  is_offline: boolean;
+  is_hosted: boolean;
+}
+
+export interface MockCoupon {
+  coupon_code: string;
+  description: string;
+  // Percentage off the item subtotal, or a fixed amount
+  discount_type: 'percentage' | 'flat';
+  discount_value: number;
+  minimum_amount: number;
+  expiry_date?: string;
+}
+
+export interface MockAddress {
+  first_name?: string;
+  last_name?: string;
+  email_address?: string;
+  address?: string;
+  street2?: string;
+  city?: string;
+  state?: string;
+  postal_code?: string;
+  telephone?: string;
+  country?: string;
+  same_billing_address?: boolean;
+}
+
+export const MOCK_COUNTRIES: MockCountry[] = [
+  {
+    code: 'CA',
+    mobile_code: '+1',
+    name: 'Canada',
+    states: [
+      { code: 'AB', name: 'Alberta' },
+      { code: 'BC', name: 'British Columbia' },
+      { code: 'ON', name: 'Ontario' },
+      { code: 'QC', name: 'Quebec' },
+    ],
+  },
+  {
+    code: 'US',
+    mobile_code: '+1',
+    name: 'United States',
+    states: [
+      { code: 'CA', name: 'California' },
+      { code: 'NY', name: 'New York' },
+      { code: 'TX', name: 'Texas' },
+      { code: 'WA', name: 'Washington' },
+    ],
+  },
+  {
+    code: 'IN',
+    mobile_code: '+91',
+    name: 'India',
+    states: [
+      { code: 'KA', name: 'Karnataka' },
+      { code: 'MH', name: 'Maharashtra' },
+      { code: 'TN', name: 'Tamil Nadu' },
+    ],
+  },
+  {
+    code: 'GB',
+    mobile_code: '+44',
+    name: 'United Kingdom',
+    states: [],
+  },
+];
+
+export const MOCK_SHIPPING_METHODS: MockShippingMethod[] = [
+  { id: '9100001', name: 'Standard Shipping', rate: 7.5, handling_fees: 0, delivery_time: '5-7 business days', is_default: true },
+  { id: '9100002', name: 'Express Shipping', rate: 18, handling_fees: 2, delivery_time: '1-2 business days', is_default: false },
+  { id: '9100003', name: 'Store Pickup', rate: 0, handling_fees: 0, delivery_time: 'Ready in 2 hours', is_default: false },
+];
+
+export const MOCK_PAYMENT_MODES: MockPaymentMode[] = [
+  {
+    payment_mode: 'card',
+    name: 'Credit / Debit Card',
+    description: 'Pay securely on our payment provider\'s page.',
+    instructions: 'You will be sent to the (fake) card payment page, then back here to finish your order.',
+    is_offline: false,
+    is_hosted: true,
+  },
+  {
+    payment_mode: 'cash_on_delivery',
+    name: 'Cash on Delivery',
+    description: 'Pay when your order arrives.',
+    instructions: 'Have the exact amount ready for the courier.',
+    is_offline: false,
+    is_hosted: false,
+  },
+  {
+    payment_mode: 'bank_transfer',
+    name: 'Bank Transfer',
+    description: 'Pay from your bank account after placing the order.',
+    instructions: 'Quote your order number as the payment reference. We ship once the transfer arrives.',
+    is_offline: true,
+    is_hosted: false,
+  },
+  {
+    payment_mode: 'cheque',
+    name: 'Cheque',
+    description: 'Post a cheque after placing the order.',
+    instructions: 'Make the cheque payable to ActivePharm (mock) and write your order number on the back.',
+    is_offline: true,
+    is_hosted: false,
+  },
+];
+
+// SPRING15 has already expired, so the expired-code message can be tried
+export const MOCK_COUPONS: MockCoupon[] = [
+  { coupon_code: 'SAVE10', description: '10% off your order', discount_type: 'percentage', discount_value: 10, minimum_amount: 0 },
+  { coupon_code: 'WELCOME5', description: '$5 off orders over $25', discount_type: 'flat', discount_value: 5, minimum_amount: 25 },
+  { coupon_code: 'BIG20', description: '20% off orders over $200', discount_type: 'percentage', discount_value: 20, minimum_amount: 200 },
+  { coupon_code: 'SPRING15', description: '15% spring sale', discount_type: 'percentage', discount_value: 15, minimum_amount: 0, expiry_date: '2024-05-31' },
+];
+
+// Where bank transfers for mock orders should go
+export const MOCK_BANK_DETAILS = {
+  account_name: 'ActivePharm (mock)',
+  bank_name: 'Example Bank',
+  account_number: '00012345678',
+  iban: 'GB33BUKB20201555555555',
+  bic: 'BUKBGB22',
+};
@@ -0,0 +1,537 @@
+// Stateful implementations of the n8n webhook functions. Responses mirror what
+// Zoho returns through n8n: status_code "0" on success, a non-zero code with a
+// status_message for business failures (still HTTP 200).
+
+import { COUPON_EXPIRED, COUPON_INVALID, COUPON_MINIMUM_SPEND } from '../api/_lib/coupons';
+import { paymentError } from '../api/_lib/paymentErrors';
+import { MOCK_CURRENCY, MOCK_PRODUCTS, findMockProduct } from './fixtures/catalog';
+import {
+  MOCK_BANK_DETAILS,
+  MOCK_COUNTRIES,
+  MOCK_COUPONS,
+  MOCK_PAYMENT_MODES,
+  MOCK_SHIPPING_METHODS,
+  type MockAddress,
+  type MockCoupon,
+} from './fixtures/checkout';
+
+type Body = Record<string, unknown>;
+export type MockResponse = Record<string, unknown>;
+
+interface MockCart {
+  id: string;
+  // variant_id -> quantity, in insertion order
+  items: Map<string, number>;
+  shippingAddress?: MockAddress;
+  billingAddress?: MockAddress;
+  shippingMethodId?: string;
+  couponCode?: string;
+}
+
+// Stored as the response payload, so get-order can answer with the same shape
+type MockOrder = MockResponse & { salesorder_id: string };
+
+// Mirrors the proxy's fake payment provider (api/_lib/payments.ts)
+interface MockPaymentSession {
+  session_id: string;
+  checkout_id: string;
+  status: 'open' | 'paid' | 'failed' | 'cancelled';
+  amount: number;
+  currency_code: string;
+  redirect_url: string;
+  return_url: string;
+  cancel_url: string;
+}
+
+export interface MockState {
+  carts: Map<string, MockCart>;
+  orders: Map<string, MockOrder>;
+  // salesorder_id -> the order token handed out with it, like the proxy's signed tokens
+  orderTokens: Map<string, string>;
+  paymentSessions: Map<string, MockPaymentSession>;
+  // Addresses submitted during checkout, offered back as saved addresses
+  savedAddresses: MockAddress[];
+  nextId: number;
+}
+
+export const createMockState = (): MockState => ({
+  carts: new Map(),
+  orders: new Map(),
+  orderTokens: new Map(),
+  paymentSessions: new Map(),
+  savedAddresses: [],
+  nextId: 1,
+});
+
+const success = (payload: unknown, extra: MockResponse = {}): MockResponse => ({
+  status_code: '0',
+  status_message: 'success',
+  ...extra,
+  payload,
+});
+
+const businessError = (code: string, message: string): MockResponse => ({
+  status_code: code,
+  status_message: message,
+});
+
+const asString = (value: unknown) => (typeof value === 'string' ? value : value === undefined ? '' : String(value));
+const asNumber = (value: unknown) => Number(value);
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+const cartLines = (cart: MockCart) => {
+  return Array.from(cart.items.entries()).flatMap(([variantId, quantity]) => {
+    const match = findMockProduct(variantId);
+    if (!match) return [];
+    const bracket = match.variant.price_brackets.find(entry =>
+      quantity >= entry.start_quantity && (entry.end_quantity === undefined || quantity <= entry.end_quantity)
+    );
+    return [{
+      product_id: match.product.product_id,
+      product_variant_id: variantId,
+      name: match.product.name,
+      quantity,
+      price: bracket?.price ?? match.variant.selling_price,
+      price_brackets: match.variant.price_brackets,
+      base_price: match.variant.selling_price,
+      image_url: match.product.images[0]?.url,
+      sku: match.variant.sku,
+      options: match.variant.options,
+    }];
+  });
+};
+
+const cartSubTotal = (cart: MockCart) => {
+  return roundMoney(cartLines(cart).reduce((sum, line) => sum + line.price * line.quantity, 0));
+};
+
+const findCoupon = (code: string) => {
+  return MOCK_COUPONS.find(coupon => coupon.coupon_code === code.toUpperCase());
+};
+
+// Why the code can't be used on this cart right now, or null when it can
+const couponProblem = (coupon: MockCoupon, cart: MockCart): MockResponse | null => {
+  if (coupon.expiry_date && new Date(`${coupon.expiry_date}T23:59:59Z`).getTime() < Date.now()) {
+    return businessError(COUPON_EXPIRED, 'That discount code has expired.');
+  }
+  if (cartSubTotal(cart) < coupon.minimum_amount) {
+    return {
+      ...businessError(COUPON_MINIMUM_SPEND, `Spend at least ${coupon.minimum_amount} to use this code.`),
+      payload: { minimum_amount: coupon.minimum_amount },
+    };
+  }
+  return null;
+};
+
+// A code stops applying when the items change and the cart no longer qualifies
+const appliedCoupon = (cart: MockCart) => {
+  if (!cart.couponCode) return undefined;
+  const coupon = findCoupon(cart.couponCode);
+  if (!coupon || couponProblem(coupon, cart)) {
+    cart.couponCode = undefined;
+    return undefined;
+  }
+  return coupon;
+};
+
+const cartDiscount = (cart: MockCart) => {
+  const coupon = appliedCoupon(cart);
+  if (!coupon) return 0;
+  const subTotal = cartSubTotal(cart);
+  const amount = coupon.discount_type === 'percentage'
+    ? subTotal * coupon.discount_value / 100
+    : coupon.discount_value;
+  return roundMoney(Math.min(amount, subTotal));
+};
+
+const couponPayload = (cart: MockCart) => {
+  const coupon = appliedCoupon(cart);
+  return coupon && {
+    coupon_code: coupon.coupon_code,
+    description: coupon.description,
+    discount_amount: cartDiscount(cart),
+  };
+};
+
+const selectedShipping = (cart: MockCart) => {
+  return MOCK_SHIPPING_METHODS.find(method => method.id === cart.shippingMethodId);
+};
+
+const cartTotal = (cart: MockCart) => {
+  const shipping = selectedShipping(cart);
+  return roundMoney(cartSubTotal(cart) - cartDiscount(cart) + (shipping ? shipping.rate + shipping.handling_fees : 0));
+};
+
+const getCart = (state: MockState, body: Body, key = 'cart_id'): MockCart | undefined => {
+  return state.carts.get(asString(body[key]));
+};
+
+const placeOrder = (state: MockState, cart: MockCart, paymentMode: string): MockResponse => {
+  if (cart.items.size === 0) {
+    return businessError('1003', 'Your cart is empty.');
+  }
+  if (!cart.shippingAddress) {
+    return businessError('1004', 'Please add a shipping address before placing the order.');
+  }
+  const mode = MOCK_PAYMENT_MODES.find(entry => entry.payment_mode === paymentMode);
+  if (!mode) {
+    return businessError('1009', 'That payment method is not available.');
+  }
+
+  const sequence = state.nextId++;
+  const shipping = selectedShipping(cart);
+  const salesorderNumber = `SO-${String(sequence).padStart(5, '0')}`;
+  const order: MockOrder = {
+    salesorder_id: String(7000000 + sequence),
+    salesorder_number: salesorderNumber,
+    cart_id: cart.id,
+    // Offline orders wait for the money to arrive
+    status: mode.is_offline ? 'pending_payment' : 'confirmed',
+    payment_mode: paymentMode,
+    ...(paymentMode === 'bank_transfer' && {
+      bank_details: {
+        ...MOCK_BANK_DETAILS,
+        reference_number: salesorderNumber,
+        instructions: 'Transfer the order total within 7 days and quote the reference.',
+      },
+    }),
+    created_time: new Date().toISOString(),
+    currency_code: MOCK_CURRENCY.code,
+    line_items: cartLines(cart).map(line => ({ ...line, item_total: roundMoney(line.price * line.quantity) })),
+    shipping_address: cart.shippingAddress,
+    billing_address: cart.billingAddress ?? cart.shippingAddress,
+    shipping_method: shipping?.name ?? '',
+    sub_total: cartSubTotal(cart),
+    shipping_charge: shipping ? shipping.rate + shipping.handling_fees : 0,
+    tax_total: 0,
+    discount: cartDiscount(cart),
+    coupon_code: cart.couponCode,
+    total: cartTotal(cart),
+  };
+  const orderToken = Math.random().toString(36).slice(2) + Math.random().toString(36).slice(2);
+  state.orders.set(order.salesorder_id, order);
+  state.orderTokens.set(order.salesorder_id, orderToken);
+  state.carts.delete(cart.id);
+
+  return success({ ...order, order_token: orderToken });
+};
+
+// What the storefront sees; return and cancel URLs stay with the provider
+const sessionPayload = (session: MockPaymentSession) => ({
+  session_id: session.session_id,
+  checkout_id: session.checkout_id,
+  status: session.status,
+  amount: session.amount,
+  currency_code: session.currency_code,
+  redirect_url: session.redirect_url,
+});
+
+const withSessionId = (url: string, sessionId: string) => {
+  const target = new URL(url);
+  target.searchParams.set('session_id', sessionId);
+  return target.toString();
+};
+
+const isAbsoluteUrl = (value: string) => {
+  try {
+    return Boolean(new URL(value).origin);
+  } catch {
+    return false;
+  }
+};
+
+// Hosted payment modes need a paid session for this cart, for what the cart costs now
+const checkPaidSession = (state: MockState, cart: MockCart, body: Body): MockResponse | null => {
+  const mode = MOCK_PAYMENT_MODES.find(entry => entry.payment_mode === asString(body.payment_mode));
+  if (!mode?.is_hosted) {
+    return null;
+  }
+  // Same checks, in the same order, as verifyPaidSession in api/_lib/payments.ts
+  if (typeof body.payment_session_id !== 'string') {
+    return paymentError('notCompleted');
+  }
+  const session = state.paymentSessions.get(body.payment_session_id);
+  if (!session || session.checkout_id !== cart.id) {
+    return paymentError('sessionNotFound');
+  }
+  if (session.status !== 'paid') {
+    return paymentError('notCompleted');
+  }
+  if (session.amount !== cartTotal(cart)) {
+    return paymentError('totalChanged');
+  }
+  return null;
+};
+
+type Handler = (state: MockState, body: Body) => MockResponse;
+
+export const MOCK_HANDLERS: Record<string, Handler> = {
+  'get-products': (_state, body) => {
+    const perPage = Math.max(1, asNumber(body.per_page) || 24);
+    const page = Math.max(1, asNumber(body.page) || 1);
+    const totalPages = Math.max(1, Math.ceil(MOCK_PRODUCTS.length / perPage));
+    return success({
+      products: MOCK_PRODUCTS.slice((page - 1) * perPage, page * perPage),
+      currency: MOCK_CURRENCY,
+      pagination: {
+        current_page: page,
+        per_page: perPage,
+        has_more_page: page < totalPages,
+        total_number_of_pages: totalPages,
+      },
+      page: { title: 'Products', site_title: 'ActivePharm (mock)' },
+    }, { api_kind: 'products' });
+  },
+
+  'get-product-detail': (_state, body) => {
+    const match = findMockProduct(asString(body.variant_id));
+    return match
+      ? success({ product: match.product })
+      : businessError('1002', 'Product not found.');
+  },
+
+  'add-to-cart': (state, body) => {
+    const variantId = asString(body.product_variant_id);
+    const quantity = asNumber(body.quantity) || 1;
+    const match = findMockProduct(variantId);
+    if (!match) {
+      return businessError('1002', 'Product not found.');
+    }
+
+    let cart = getCart(state, body);
+    if (!cart) {
+      cart = { id: `mock-cart-${state.nextId++}`, items: new Map() };
+      state.carts.set(cart.id, cart);
+    }
+
+    const nextQuantity = (cart.items.get(match.variant.variant_id) || 0) + quantity;
+    if (nextQuantity > match.variant.stock_available) {
+      return businessError('1005', `Only ${match.variant.stock_available} left in stock.`);
+    }
+    cart.items.set(match.variant.variant_id, nextQuantity);
+
+    return success({ cart_id: cart.id }, { cart_id: cart.id });
+  },
+
+  'get-cart': (state, body) => {
+    const cart = getCart(state, body);
+    return success({
+      cart_id: cart?.id ?? asString(body.cart_id),
+      items: cart ? cartLines(cart) : [],
+      sub_total: cart ? cartSubTotal(cart) : 0,
+      coupon: cart ? couponPayload(cart) : undefined,
+    });
+  },
+
+  'apply-coupon': (state, body) => {
+    const cart = getCart(state, body);
+    if (!cart) {
+      return businessError('1001', 'Cart not found.');
+    }
+    const coupon = findCoupon(asString(body.coupon_code));
+    if (!coupon) {
+      return businessError(COUPON_INVALID, 'That discount code is not valid.');
+    }
+    const problem = couponProblem(coupon, cart);
+    if (problem) {
+      return problem;
+    }
+    cart.couponCode = coupon.coupon_code;
+    return success({ cart_id: cart.id, coupon: couponPayload(cart) });
+  },
+
+  'remove-coupon': (state, body) => {
+    const cart = getCart(state, body);
+    if (!cart) {
+      return businessError('1001', 'Cart not found.');
+    }
+    cart.couponCode = undefined;
+    return success({ cart_id: cart.id });
+  },
+
+  'remove-cart-item': (state, body) => {
+    const cart = getCart(state, body);
+    if (!cart) {
+      return businessError('1001', 'Cart not found.');
+    }
+    cart.items.delete(asString(body.product_variant_id));
+    return success({ cart_id: cart.id });
+  },
+
+  'update-cart-item': (state, body) => {
+    const cart = getCart(state, body);
+    if (!cart) {
+      return businessError('1001', 'Cart not found.');
+    }
+    const variantId = asString(body.product_variant_id);
+    const quantity = asNumber(body.quantity);
+    const match = findMockProduct(variantId);
+    if (!match || !cart.items.has(variantId)) {
+      return businessError('1002', 'This item is no longer in your cart.');
+    }
+    if (quantity > match.variant.stock_available) {
+      return businessError('1005', `Only ${match.variant.stock_available} left in stock.`);
+    }
+    if (quantity < 1) {
+      cart.items.delete(variantId);
+    } else {
+      cart.items.set(variantId, quantity);
+    }
+    return success({ cart_id: cart.id });
+  },
+
+  'get-checkout-info': (state, body) => {
+    const cart = getCart(state, body, 'checkout_id');
+    if (!cart) {
+      return businessError('1001', 'Cart not found.');
+    }
+    const shipping = selectedShipping(cart);
+    return success({
+      checkout: {
+        address_detail: {
+          addresses: state.savedAddresses.map((address, index) => ({
+            ...address,
+            is_selected: index === state.savedAddresses.length - 1,
+          })),
+          countries: MOCK_COUNTRIES,
+          all_countries: MOCK_COUNTRIES.map(country => ({ ...country, id: country.code })),
+        },
+        order: {
+          line_items: cartLines(cart),
+          sub_total: cartSubTotal(cart),
+          shipping,
+          shipping_charge: shipping ? shipping.rate + shipping.handling_fees : 0,
+          tax_total: 0,
+          discount: cartDiscount(cart),
+          total: cartTotal(cart),
+        },
+        payment_modes: MOCK_PAYMENT_MODES,
+      },
+    });
+  },
+
+  'add-address': (state, body) => {
+    const cart = getCart(state, body, 'checkout_id');
+    if (!cart) {
+      return businessError('1001', 'Cart not found.');
+    }
+    const address = body.shipping_address as MockAddress | undefined;
+    if (!address?.first_name || !address.address || !address.city || !address.country) {
+      return businessError('1006', 'Please enter a complete shipping address.');
+    }
+
+    cart.shippingAddress = address;
+    cart.billingAddress = (body.billing_address as MockAddress | undefined) ?? address;
+    const alreadySaved = state.savedAddresses.some(saved =>
+      saved.address === address.address && saved.postal_code === address.postal_code
+    );
+    if (!alreadySaved) {
+      state.savedAddresses.push(address);
+    }
+
+    return success({
+      checkout_shipping_methods: {
+        shipping_methods: MOCK_SHIPPING_METHODS,
+        checkout_custom_fields: { order_custom_fields_count: { count: '0' } },
+      },
+    });
+  },
+
+  'add-shipping-methods': (state, body) => {
+    const cart = getCart(state, body, 'checkout_id');
+    if (!cart) {
+      return businessError('1001', 'Cart not found.');
+    }
+    const method = MOCK_SHIPPING_METHODS.find(entry => entry.id === asString(body.shipping));
+    if (!method) {
+      return businessError('1007', 'That shipping method is not available.');
+    }
+    cart.shippingMethodId = method.id;
+    return success({ shipping: method, total: cartTotal(cart) });
+  },
+
+  'place-order': (state, body) => {
+    const cart = getCart(state, body, 'checkout_id');
+    if (!cart) {
+      return businessError('1001', 'Cart not found.');
+    }
+    const unpaid = checkPaidSession(state, cart, body);
+    if (unpaid) {
+      return unpaid;
+    }
+    return placeOrder(state, cart, asString(body.payment_mode) || 'cash_on_delivery');
+  },
+
+  'confirm-checkout': (state, body) => {
+    const cart = getCart(state, body, 'checkout_id');
+    if (!cart) {
+      return businessError('1001', 'Cart not found.');
+    }
+    if (body.shipping !== undefined) {
+      const method = MOCK_SHIPPING_METHODS.find(entry => entry.id === asString(body.shipping));
+      if (!method) {
+        return businessError('1007', 'That shipping method is not available.');
+      }
+      cart.shippingMethodId = method.id;
+    }
+    const unpaid = checkPaidSession(state, cart, body);
+    if (unpaid) {
+      return unpaid;
+    }
+    return placeOrder(state, cart, asString(body.payment_mode) || 'cash_on_delivery');
+  },
+
+  'get-order': (state, body) => {
+    const salesorderId = asString(body.salesorder_id);
+    const order = state.orders.get(salesorderId);
+    const authorized = order && state.orderTokens.get(salesorderId) === asString(body.order_token);
+    return authorized ? success(order) : businessError('1008', 'Order not found.');
+  },
+
+  'create-payment-session': (state, body) => {
+    const cart = getCart(state, body, 'checkout_id');
+    if (!cart) {
+      return businessError('1001', 'Cart not found.');
+    }
+    const returnUrl = asString(body.return_url);
+    const cancelUrl = asString(body.cancel_url);
+    if (!isAbsoluteUrl(returnUrl) || !isAbsoluteUrl(cancelUrl)) {
+      return paymentError('invalidUrl');
+    }
+
+    const sessionId = `fake_${state.nextId++}`;
+    const gateway = new URL('/payment/fake-gateway', returnUrl);
+    gateway.searchParams.set('session_id', sessionId);
+    const session: MockPaymentSession = {
+      session_id: sessionId,
+      checkout_id: cart.id,
+      status: 'open',
+      amount: cartTotal(cart),
+      currency_code: MOCK_CURRENCY.code,
+      redirect_url: gateway.toString(),
+      return_url: returnUrl,
+      cancel_url: cancelUrl,
+    };
+    state.paymentSessions.set(sessionId, session);
+    return success({ session: sessionPayload(session) });
+  },
+
+  'get-payment-session': (state, body) => {
+    const session = state.paymentSessions.get(asString(body.session_id));
+    return session ? success({ session: sessionPayload(session) }) : paymentError('sessionNotFound');
+  },
+
+  'complete-fake-payment': (state, body) => {
+    const session = state.paymentSessions.get(asString(body.session_id));
+    if (!session) {
+      return paymentError('sessionNotFound');
+    }
+    const outcome = asString(body.outcome);
+    if (session.status === 'open' && (outcome === 'paid' || outcome === 'failed' || outcome === 'cancelled')) {
+      session.status = outcome;
+    }
+    const next = session.status === 'cancelled' ? session.cancel_url : session.return_url;
+    return success({ session: sessionPayload(session), continue_url: withSessionId(next, session.session_id) });
+  },
+};
@@ -0,0 +1,169 @@
+// Mock n8n webhook server. Speaks the same protocol as the real webhook
+// (POST ?function=<name> with a JSON body), so the storefront, the Vite proxy
+// and automated tests can use it without the live n8n instance or an auth key.
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { MOCK_HANDLERS, createMockState, type MockState } from './handlers';
+import {
+  failureConfigFromEnv,
+  mergeFailureConfig,
+  pickFailure,
+  type MockFailureConfig,
+  type MockFailureKind,
+} from './failures';
+
+export const DEFAULT_MOCK_PORT = 8787;
+
+// Longer than the client's 15s timeout, so 'timeout' failures surface as timeouts
+const HANG_MS = 30000;
+
+export interface MockServerOptions {
+  port?: number;
+  failures?: Partial<MockFailureConfig>;
+  env?: Record<string, string | undefined>;
+}
+
+export interface MockServer {
+  server: Server;
+  port: number;
+  reset: () => void;
+  close: () => Promise<void>;
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => {
+      data += chunk;
+    });
+    req.on('end', () => resolve(data));
+    req.on('error', reject);
+  });
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const sendFailure = async (res: ServerResponse, kind: MockFailureKind) => {
+  switch (kind) {
+    case 'network':
+      res.socket?.destroy();
+      return;
+    case 'timeout':
+      await delay(HANG_MS);
+      if (!res.writableEnded) sendJson(res, 504, { error: 'Mock timeout' });
+      return;
+    case 'http500':
+      sendJson(res, 500, { error: 'Mock internal server error' });
+      return;
+    case 'business':
+      sendJson(res, 200, { status_code: '9999', status_message: 'Mock business failure' });
+      return;
+    case 'malformed':
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end('<html>not json</html>');
+      return;
+    case 'rate-limit':
+      sendJson(res, 429, { error: 'rate_limited', message: 'Too many requests', retry_after: 3 }, { 'Retry-After': '3' });
+      return;
+  }
+};
+
+export const createMockServer = (options: MockServerOptions = {}): MockServer => {
+  const env = options.env ?? process.env;
+  const initialFailures = mergeFailureConfig(failureConfigFromEnv(env), options.failures);
+  let failures = initialFailures;
+  let state: MockState = createMockState();
+
+  const reset = () => {
+    state = createMockState();
+    failures = initialFailures;
+  };
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    // Control endpoints for tests and demos
+    if (url.pathname === '/__mock/reset' && req.method === 'POST') {
+      reset();
+      sendJson(res, 200, { ok: true });
+      return;
+    }
+    if (url.pathname === '/__mock/config') {
+      if (req.method === 'POST') {
+        failures = mergeFailureConfig(failures, JSON.parse((await readBody(req)) || '{}'));
+      }
+      sendJson(res, 200, failures);
+      return;
+    }
+
+    const functionName = url.searchParams.get('function') || '';
+    const handler = Object.prototype.hasOwnProperty.call(MOCK_HANDLERS, functionName)
+      ? MOCK_HANDLERS[functionName]
+      : undefined;
+    if (!handler) {
+      sendJson(res, 400, { error: 'unknown_function', message: `Function "${functionName}" is not allowed` });
+      return;
+    }
+    if (req.method !== 'POST') {
+      sendJson(res, 405, { error: 'method_not_allowed', message: 'Use POST' }, { Allow: 'POST' });
+      return;
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      const raw = await readBody(req);
+      body = raw ? JSON.parse(raw) : {};
+    } catch {
+      sendJson(res, 400, { error: 'invalid_request', message: 'Body must be JSON' });
+      return;
+    }
+
+    if (failures.latencyMs > 0) {
+      await delay(failures.latencyMs);
+    }
+
+    const failure = pickFailure(failures, functionName, url.searchParams.get('mock_fail'));
+    if (failure) {
+      await sendFailure(res, failure);
+      return;
+    }
+
+    sendJson(res, 200, handler(state, body));
+  };
+
+  const server = createServer((req, res) => {
+    handleRequest(req, res).catch(error => {
+      console.error('[mock] request failed:', error);
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: 'Mock server error', message: error instanceof Error ? error.message : String(error) });
+      }
+    });
+  });
+
+  const port = options.port ?? (Number(env.MOCK_WEBHOOK_PORT) || DEFAULT_MOCK_PORT);
+  // Without a listener a taken port crashes the dev server with a bare stack trace
+  server.on('error', (error: NodeJS.ErrnoException) => {
+    if (error.code === 'EADDRINUSE') {
+      console.error(`[mock] port ${port} is already in use. Stop whatever holds it or set MOCK_WEBHOOK_PORT to a free port.`);
+      return;
+    }
+    console.error('[mock] server error:', error);
+  });
+  server.listen(port);
+
+  return {
+    server,
+    port,
+    reset,
+    close: () => new Promise((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()));
+      server.closeAllConnections();
+    }),
+  };
+};
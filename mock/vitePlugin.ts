@@ -0,0 +1,16 @@
+// Starts the mock webhook server alongside the Vite dev server (`vite --mode mock`)
+
+import type { Plugin } from 'vite';
+import { createMockServer, type MockServerOptions } from './server';
+
+export const mockWebhookPlugin = (options: MockServerOptions = {}): Plugin => ({
+  name: 'mock-webhook',
+  apply: 'serve',
+  configureServer(server) {
+    const mock = createMockServer(options);
+    server.config.logger.info(`  ➜  Mock webhook: http://localhost:${mock.port}/webhook`);
+    server.httpServer?.once('close', () => {
+      mock.close().catch(() => {});
+    });
+  },
+});
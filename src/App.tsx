@@ -1,17 +1,65 @@
-import { BrowserRouter, Routes, Route } from 'react-router-dom'
+import { BrowserRouter, Routes, Route, useLocation, type Location } from 'react-router-dom'
 import HomePage from './pages/HomePage'
 import Checkout from './pages/Checkout'
+import AddressStep from './pages/checkout/AddressStep'
+import ShippingStep from './pages/checkout/ShippingStep'
+import PaymentStep from './pages/checkout/PaymentStep'
+import ReviewStep from './pages/checkout/ReviewStep'
+import PaymentReturn from './pages/checkout/PaymentReturn'
+import PaymentCancel from './pages/checkout/PaymentCancel'
+import FakePaymentGateway from './pages/FakePaymentGateway'
 import CartPage from './pages/CartPage'
+import OrderConfirmation from './pages/OrderConfirmation'
+import OrderReceived from './pages/OrderReceived'
+import ProductDetail from './pages/ProductDetail'
+import ProductModalRoute from './components/ProductModalRoute'
+import CurrencyProvider from './context/CurrencyProvider'
+import CartProvider from './context/CartProvider'
 import './App.css'
 
-function App() {
+function AppRoutes() {
+  const location = useLocation()
+  // Products opened from the catalog keep the catalog rendered underneath the modal;
+  // deep links and reloads have no background location and get the full page instead
+  const backgroundLocation = (location.state as { backgroundLocation?: Location } | null)?.backgroundLocation
+
   return (
-    <BrowserRouter>
-      <Routes>
+    <>
+      <Routes location={backgroundLocation || location}>
         <Route path="/" element={<HomePage />} />
         <Route path="/cart" element={<CartPage />} />
-        <Route path="/checkout" element={<Checkout />} />
+        <Route path="/checkout" element={<Checkout />}>
+          <Route path="address" element={<AddressStep />} />
+          <Route path="shipping" element={<ShippingStep />} />
+          <Route path="payment" element={<PaymentStep />} />
+          <Route path="payment/return" element={<PaymentReturn />} />
+          <Route path="payment/cancel" element={<PaymentCancel />} />
+          <Route path="review" element={<ReviewStep />} />
+        </Route>
+        <Route path="/order/confirmation/:orderId" element={<OrderConfirmation />} />
+        <Route path="/order/received" element={<OrderReceived />} />
+        <Route path="/payment/fake-gateway" element={<FakePaymentGateway />} />
+        <Route path="/product/variant/:variantId" element={<ProductDetail />} />
+        <Route path="/product/:handle" element={<ProductDetail />} />
       </Routes>
+
+      {backgroundLocation && (
+        <Routes>
+          <Route path="/product/:handle" element={<ProductModalRoute />} />
+        </Routes>
+      )}
+    </>
+  )
+}
+
+function App() {
+  return (
+    <BrowserRouter>
+      <CurrencyProvider>
+        <CartProvider>
+          <AppRoutes />
+        </CartProvider>
+      </CurrencyProvider>
     </BrowserRouter>
   )
 }
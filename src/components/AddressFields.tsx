@@ -0,0 +1,143 @@
+import type { CheckoutAddress, Country } from '../services/api'
+import {
+  isPostalCodeRequired,
+  isStateRequired,
+  type AddressErrors,
+  type AddressField,
+} from '../utils/addressValidation'
+import PhoneInput from './PhoneInput'
+
+interface AddressFieldsProps {
+  // Prefix for element ids, so shipping and billing fields can share a page
+  idPrefix: string
+  address: CheckoutAddress
+  countries: Country[]
+  errors: AddressErrors
+  // Country whose dial code the telephone starts with while this address has no country
+  phoneCountry?: string
+  onChange: (updates: Partial<CheckoutAddress>) => void
+}
+
+function AddressFields({ idPrefix, address, countries, errors, phoneCountry, onChange }: AddressFieldsProps) {
+  const country = countries.find(entry => entry.code === address.country)
+  const states = country?.states || []
+  const dialCountry = country || countries.find(entry => entry.code === phoneCountry)
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target
+    // States belong to a country, so a new country clears the old choice
+    onChange(name === 'country' ? { country: value, state: '' } : { [name]: value })
+  }
+
+  const fieldProps = (field: AddressField) => ({
+    id: `${idPrefix}_${field}`,
+    name: field,
+    value: address[field],
+    onChange: handleChange,
+    'aria-invalid': errors[field] ? true : undefined,
+    'aria-describedby': errors[field] ? `${idPrefix}_${field}_error` : undefined,
+  })
+
+  const fieldError = (field: AddressField) => errors[field] && (
+    <span id={`${idPrefix}_${field}_error`} className="field-error">{errors[field]}</span>
+  )
+
+  return (
+    <div className="form-grid">
+      <div className="form-group">
+        <label htmlFor={`${idPrefix}_first_name`}>First Name *</label>
+        <input type="text" autoComplete="given-name" {...fieldProps('first_name')} />
+        {fieldError('first_name')}
+      </div>
+
+      <div className="form-group">
+        <label htmlFor={`${idPrefix}_last_name`}>Last Name *</label>
+        <input type="text" autoComplete="family-name" {...fieldProps('last_name')} />
+        {fieldError('last_name')}
+      </div>
+
+      <div className="form-group">
+        <label htmlFor={`${idPrefix}_email_address`}>Email Address *</label>
+        <input type="email" autoComplete="email" {...fieldProps('email_address')} />
+        {fieldError('email_address')}
+      </div>
+
+      <div className="form-group">
+        <label htmlFor={`${idPrefix}_telephone`}>Telephone *</label>
+        <PhoneInput
+          id={`${idPrefix}_telephone`}
+          name="telephone"
+          value={address.telephone}
+          countries={countries}
+          defaultCountry={dialCountry}
+          onChange={telephone => onChange({ telephone })}
+          invalid={Boolean(errors.telephone)}
+          describedBy={errors.telephone && `${idPrefix}_telephone_error`}
+        />
+        {fieldError('telephone')}
+      </div>
+
+      <div className="form-group full-width">
+        <label htmlFor={`${idPrefix}_address`}>Address *</label>
+        <input type="text" autoComplete="street-address" {...fieldProps('address')} />
+        {fieldError('address')}
+      </div>
+
+      <div className="form-group full-width">
+        <label htmlFor={`${idPrefix}_street2`}>Apartment, Suite, etc.</label>
+        <input type="text" autoComplete="address-line2" {...fieldProps('street2')} />
+        {fieldError('street2')}
+      </div>
+
+      <div className="form-group">
+        <label htmlFor={`${idPrefix}_city`}>City *</label>
+        <input type="text" autoComplete="address-level2" {...fieldProps('city')} />
+        {fieldError('city')}
+      </div>
+
+      <div className="form-group">
+        <label htmlFor={`${idPrefix}_state`}>State{isStateRequired(country) && ' *'}</label>
+        {states.length > 0 ? (
+          <select {...fieldProps('state')}>
+            <option value="">Select State</option>
+            {states.map((state) => (
+              <option key={state.code} value={state.code}>
+                {state.name}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <input type="text" placeholder="Enter state" autoComplete="address-level1" {...fieldProps('state')} />
+        )}
+        {fieldError('state')}
+      </div>
+
+      <div className="form-group">
+        <label htmlFor={`${idPrefix}_postal_code`}>Postal Code{isPostalCodeRequired(address.country) && ' *'}</label>
+        <input type="text" autoComplete="postal-code" {...fieldProps('postal_code')} />
+        {fieldError('postal_code')}
+      </div>
+
+      <div className="form-group">
+        <label htmlFor={`${idPrefix}_country`}>Country *</label>
+        {countries.length === 0 ? (
+          <select disabled>
+            <option>No countries available</option>
+          </select>
+        ) : (
+          <select {...fieldProps('country')}>
+            <option value="">Select Country</option>
+            {countries.map((country) => (
+              <option key={country.code} value={country.code}>
+                {country.name}
+              </option>
+            ))}
+          </select>
+        )}
+        {fieldError('country')}
+      </div>
+    </div>
+  )
+}
+
+export default AddressFields
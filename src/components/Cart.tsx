@@ -1,79 +1,33 @@
-import { useState, useEffect } from 'react'
+import { useEffect } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { getCartId } from '../utils/cookies'
-import { getCartItems as fetchCartItemsFromAPI } from '../services/api'
-import type { CartItem } from '../utils/cookies'
+import { getProductImageUrl } from '../services/api'
+import { useCart } from '../hooks/useCart'
+import { useMoney } from '../hooks/useMoney'
 import './Cart.css'
 
 interface CartProps {
   isOpen: boolean
   onClose: () => void
-  onUpdate?: () => void
 }
 
-function Cart({ isOpen, onClose, onUpdate }: CartProps) {
+// Mini-cart drawer, mounted once by CartProvider and driven by the shared cart store
+function Cart({ isOpen, onClose }: CartProps) {
+  const { formatPrice } = useMoney()
   const navigate = useNavigate()
-  const [cartItems, setCartItems] = useState<CartItem[]>([])
-  const [loading, setLoading] = useState(false)
-  const [error, setError] = useState<string | null>(null)
-
-  useEffect(() => {
-    if (isOpen) {
-      loadCartItems()
-    }
-  }, [isOpen])
-
-  const loadCartItems = async () => {
-    const cartId = getCartId()
-    
-    if (!cartId) {
-      // No cart ID, cart is empty
-      setCartItems([])
-      return
-    }
-
-    try {
-      setLoading(true)
-      setError(null)
-      const response = await fetchCartItemsFromAPI(cartId)
-      
-      // Extract items from API response
-      const apiItems = response.payload?.items || []
-      
-      // Transform API items to CartItem format
-      const transformedItems: CartItem[] = apiItems.map((item: any) => ({
-        product_id: item.product_id || '',
-        variant_id: item.product_variant_id || '',
-        quantity: item.quantity || 1,
-        name: item.name || item.product_name || 'Product',
-        price: item.price || item.selling_price || 0,
-        image: item.image || item.image_url || undefined,
-      }))
-      
-      setCartItems(transformedItems)
-    } catch (err) {
-      console.error('Failed to load cart from API:', err)
-      setError(err instanceof Error ? err.message : 'Failed to load cart')
-      setCartItems([])
-    } finally {
-      setLoading(false)
-    }
-  }
-
-  const handleRemoveItem = (_variantId: string) => {
-    // TODO: Implement API call to remove item from cart
-    // For now, just reload cart items
-    loadCartItems()
-    onUpdate?.()
-  }
-
-
-  const formatPrice = (price: number): string => {
-    return new Intl.NumberFormat('vi-VN').format(price)
-  }
-
-  const totalItems = cartItems.reduce((sum, item) => sum + item.quantity, 0)
-  const totalPrice = cartItems.reduce((sum, item) => sum + (item.price || 0) * item.quantity, 0)
+  const {
+    items: cartItems,
+    itemCount: totalItems,
+    totalPrice,
+    coupon,
+    discount,
+    loading,
+    error,
+    updateError,
+    pendingItemIds,
+    refreshCart,
+    removeItem,
+    updateQuantity,
+  } = useCart()
 
   const handleOverlayClick = (e: React.MouseEvent<HTMLDivElement>) => {
     if (e.target === e.currentTarget) {
@@ -123,7 +77,7 @@ function Cart({ isOpen, onClose, onUpdate }: CartProps) {
           {error && !loading && (
             <div className="cart-error">
               <p>{error}</p>
-              <button onClick={loadCartItems} className="retry-btn">
+              <button onClick={() => refreshCart()} className="retry-btn">
                 Retry
               </button>
             </div>
@@ -137,12 +91,16 @@ function Cart({ isOpen, onClose, onUpdate }: CartProps) {
           
           {!loading && !error && cartItems.length > 0 && (
             <>
+              {updateError && (
+                <div className="cart-update-error">{updateError}</div>
+              )}
+
               <div className="cart-items">
                 {cartItems.map((item) => (
                   <div key={item.variant_id} className="cart-item">
                     {item.image && (
                       <img
-                        src={item.image}
+                        src={getProductImageUrl(item.image)}
                         alt={item.name || 'Product'}
                         className="cart-item-image"
                         onError={(e) => {
@@ -153,15 +111,35 @@ function Cart({ isOpen, onClose, onUpdate }: CartProps) {
                     <div className="cart-item-details">
                       <h3 className="cart-item-name">{item.name || 'Product'}</h3>
                       <div className="cart-item-price">
-                        {item.price && formatPrice(item.price)} USD
+                        {formatPrice(item.price || 0)}
                       </div>
                       <div className="cart-item-quantity">
-                        Quantity: {item.quantity}
+                        <span>Qty:</span>
+                        <div className="cart-quantity-stepper">
+                          <button
+                            type="button"
+                            onClick={() => updateQuantity(item.variant_id, item.quantity - 1)}
+                            disabled={pendingItemIds.includes(item.variant_id)}
+                            aria-label="Decrease quantity"
+                          >
+                            −
+                          </button>
+                          <span className="cart-quantity-value">{item.quantity}</span>
+                          <button
+                            type="button"
+                            onClick={() => updateQuantity(item.variant_id, item.quantity + 1)}
+                            disabled={pendingItemIds.includes(item.variant_id)}
+                            aria-label="Increase quantity"
+                          >
+                            +
+                          </button>
+                        </div>
                       </div>
                     </div>
                     <button
                       className="cart-item-remove"
-                      onClick={() => handleRemoveItem(item.variant_id)}
+                      onClick={() => removeItem(item.variant_id)}
+                      disabled={pendingItemIds.includes(item.variant_id)}
                       aria-label="Remove item"
                     >
                       ×
@@ -176,9 +154,15 @@ function Cart({ isOpen, onClose, onUpdate }: CartProps) {
                     <span>Items:</span>
                     <span>{totalItems}</span>
                   </div>
+                  {coupon && (
+                    <div className="cart-summary-row cart-discount">
+                      <span>Discount ({coupon.code}):</span>
+                      <span>−{formatPrice(discount)}</span>
+                    </div>
+                  )}
                   <div className="cart-summary-row cart-total">
                     <span>Total Price:</span>
-                    <span>{formatPrice(totalPrice)} USD</span>
+                    <span>{formatPrice(Math.max(0, totalPrice - discount))}</span>
                   </div>
                 </div>
                 <div className="cart-actions">
@@ -0,0 +1,182 @@
+import {
+  CATALOG_SORT_OPTIONS,
+  isCatalogQueryActive,
+  type CatalogFacet,
+  type CatalogFacets,
+  type CatalogQuery,
+  type CatalogSort,
+} from '../utils/catalogQuery'
+import './CatalogFilters.css'
+
+interface CatalogFiltersProps {
+  query: CatalogQuery
+  facets: CatalogFacets
+  resultCount: number
+  totalCount: number
+  // More of the catalog is still to load, so the counts and options cover only part of it
+  partial?: boolean
+  onChange: (query: CatalogQuery) => void
+}
+
+interface FacetListProps {
+  title: string
+  facets: CatalogFacet[]
+  selected: string[]
+  onToggle: (value: string) => void
+}
+
+function FacetList({ title, facets, selected, onToggle }: FacetListProps) {
+  if (facets.length === 0) {
+    return null
+  }
+
+  return (
+    <fieldset className="catalog-facet">
+      <legend>{title}</legend>
+      {facets.map((facet) => (
+        <label key={facet.value} className="catalog-facet-option">
+          <input
+            type="checkbox"
+            checked={selected.includes(facet.value)}
+            onChange={() => onToggle(facet.value)}
+          />
+          <span>{facet.label}</span>
+          <span className="catalog-facet-count">{facet.count}</span>
+        </label>
+      ))}
+    </fieldset>
+  )
+}
+
+const toggleValue = (values: string[], value: string): string[] => {
+  return values.includes(value) ? values.filter(v => v !== value) : [...values, value]
+}
+
+function CatalogFilters({ query, facets, resultCount, totalCount, partial = false, onChange }: CatalogFiltersProps) {
+  const update = (updates: Partial<CatalogQuery>) => {
+    onChange({ ...query, ...updates })
+  }
+
+  const handlePriceChange = (field: 'minPrice' | 'maxPrice', value: string) => {
+    const price = value === '' ? null : Number(value)
+    update({ [field]: price !== null && Number.isFinite(price) && price >= 0 ? price : null })
+  }
+
+  const handleClear = () => {
+    onChange({
+      search: '',
+      brands: [],
+      manufacturers: [],
+      categories: [],
+      onSale: false,
+      inStock: false,
+      minPrice: null,
+      maxPrice: null,
+      sort: query.sort,
+    })
+  }
+
+  return (
+    <div className="catalog-filters">
+      <div className="catalog-toolbar">
+        <input
+          type="search"
+          className="catalog-search"
+          placeholder="Search products, brands or SKUs..."
+          value={query.search}
+          onChange={(e) => update({ search: e.target.value })}
+          aria-label="Search products"
+        />
+        <select
+          className="catalog-sort"
+          value={query.sort}
+          onChange={(e) => update({ sort: e.target.value as CatalogSort })}
+          aria-label="Sort products"
+        >
+          {CATALOG_SORT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="catalog-facets">
+        <FacetList
+          title="Brand"
+          facets={facets.brands}
+          selected={query.brands}
+          onToggle={(value) => update({ brands: toggleValue(query.brands, value) })}
+        />
+        <FacetList
+          title="Manufacturer"
+          facets={facets.manufacturers}
+          selected={query.manufacturers}
+          onToggle={(value) => update({ manufacturers: toggleValue(query.manufacturers, value) })}
+        />
+        <FacetList
+          title="Category"
+          facets={facets.categories}
+          selected={query.categories}
+          onToggle={(value) => update({ categories: toggleValue(query.categories, value) })}
+        />
+
+        <fieldset className="catalog-facet">
+          <legend>Availability</legend>
+          <label className="catalog-facet-option">
+            <input
+              type="checkbox"
+              checked={query.onSale}
+              onChange={(e) => update({ onSale: e.target.checked })}
+            />
+            <span>On sale</span>
+          </label>
+          <label className="catalog-facet-option">
+            <input
+              type="checkbox"
+              checked={query.inStock}
+              onChange={(e) => update({ inStock: e.target.checked })}
+            />
+            <span>In stock only</span>
+          </label>
+        </fieldset>
+
+        <fieldset className="catalog-facet">
+          <legend>Price</legend>
+          <div className="catalog-price-range">
+            <input
+              type="number"
+              min="0"
+              placeholder={String(facets.minPrice)}
+              value={query.minPrice ?? ''}
+              onChange={(e) => handlePriceChange('minPrice', e.target.value)}
+              aria-label="Minimum price"
+            />
+            <span>–</span>
+            <input
+              type="number"
+              min="0"
+              placeholder={String(facets.maxPrice)}
+              value={query.maxPrice ?? ''}
+              onChange={(e) => handlePriceChange('maxPrice', e.target.value)}
+              aria-label="Maximum price"
+            />
+          </div>
+        </fieldset>
+      </div>
+
+      <div className="catalog-summary">
+        <span>
+          Showing {resultCount} of {totalCount} products{partial && ' loaded so far'}
+        </span>
+        {isCatalogQueryActive(query) && (
+          <button type="button" className="catalog-clear-btn" onClick={handleClear}>
+            Clear filters
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default CatalogFilters
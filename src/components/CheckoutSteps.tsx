@@ -0,0 +1,38 @@
+import { Link } from 'react-router-dom'
+import { CHECKOUT_STEPS, canVisitStep, type CheckoutStepId } from '../utils/checkoutProgress'
+
+interface CheckoutStepsProps {
+  currentStep: CheckoutStepId
+  completedSteps: CheckoutStepId[]
+}
+
+// Progress indicator; steps the customer can already reach double as back links
+function CheckoutSteps({ currentStep, completedSteps }: CheckoutStepsProps) {
+  return (
+    <nav className="checkout-steps" aria-label="Checkout progress">
+      {CHECKOUT_STEPS.map((step, index) => {
+        const label = `${index + 1}. ${step.label}`
+        const isCurrent = step.id === currentStep
+        const className = [
+          isCurrent ? 'active' : '',
+          completedSteps.includes(step.id) ? 'completed' : '',
+        ].filter(Boolean).join(' ')
+
+        if (isCurrent || !canVisitStep(step.id, completedSteps)) {
+          return (
+            <span key={step.id} className={className} aria-current={isCurrent ? 'step' : undefined}>
+              {label}
+            </span>
+          )
+        }
+        return (
+          <Link key={step.id} to={step.path} className={className}>
+            {label}
+          </Link>
+        )
+      })}
+    </nav>
+  )
+}
+
+export default CheckoutSteps
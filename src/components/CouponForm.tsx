@@ -0,0 +1,90 @@
+import { useState, type FormEvent } from 'react'
+import { useCart } from '../hooks/useCart'
+import { useMoney } from '../hooks/useMoney'
+import { describeCouponError } from '../utils/coupons'
+import './CouponForm.css'
+
+// Discount code entry for the cart; shows the applied code with a way to remove it
+function CouponForm() {
+  const { formatPrice } = useMoney()
+  const { coupon, applyCoupon, removeCoupon } = useCart()
+  const [code, setCode] = useState('')
+  const [pending, setPending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!code.trim()) {
+      setError('Enter a discount code')
+      return
+    }
+
+    try {
+      setPending(true)
+      setError(null)
+      await applyCoupon(code)
+      setCode('')
+    } catch (err) {
+      setError(describeCouponError(err, formatPrice))
+    } finally {
+      setPending(false)
+    }
+  }
+
+  const handleRemove = async () => {
+    try {
+      setPending(true)
+      setError(null)
+      await removeCoupon()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The code could not be removed')
+    } finally {
+      setPending(false)
+    }
+  }
+
+  if (coupon) {
+    return (
+      <div className="coupon-form">
+        <div className="coupon-applied">
+          <span>
+            <strong>{coupon.code}</strong>
+            {coupon.description && ` • ${coupon.description}`}
+          </span>
+          <button type="button" onClick={handleRemove} disabled={pending}>
+            {pending ? 'Removing...' : 'Remove'}
+          </button>
+        </div>
+        {error && <p className="coupon-error" role="alert">{error}</p>}
+      </div>
+    )
+  }
+
+  return (
+    <form className="coupon-form" onSubmit={handleSubmit} noValidate>
+      <label htmlFor="coupon-code">Discount code</label>
+      <div className="coupon-entry">
+        <input
+          id="coupon-code"
+          type="text"
+          value={code}
+          onChange={(e) => {
+            setCode(e.target.value)
+            setError(null)
+          }}
+          autoComplete="off"
+          autoCapitalize="characters"
+          maxLength={50}
+          aria-invalid={Boolean(error)}
+          aria-describedby={error ? 'coupon-code-error' : undefined}
+        />
+        <button type="submit" disabled={pending}>
+          {pending ? 'Applying...' : 'Apply'}
+        </button>
+      </div>
+      {error && <p id="coupon-code-error" className="coupon-error" role="alert">{error}</p>}
+    </form>
+  )
+}
+
+export default CouponForm
@@ -0,0 +1,83 @@
+import { useState } from 'react'
+import type { Country } from '../services/api'
+import { formatNationalNumber, isIncompleteDialCode, joinPhoneNumber, splitPhoneNumber } from '../utils/phoneNumber'
+
+interface PhoneInputProps {
+  id: string
+  name: string
+  value: string
+  countries: Country[]
+  // Dial code to offer until the customer picks one
+  defaultCountry: Country | undefined
+  onChange: (value: string) => void
+  invalid?: boolean
+  describedBy?: string
+}
+
+// Dial-code selector plus national number, stored together as "+1 416 555 0123"
+function PhoneInput({ id, name, value, countries, defaultCountry, onChange, invalid, describedBy }: PhoneInputProps) {
+  const [chosenCode, setChosenCode] = useState<string | null>(null)
+  // What was typed while a dial code is still being entered; dropped once `value` changes elsewhere
+  const [draft, setDraft] = useState<string | null>(null)
+  const typing = draft !== null && draft === value
+  const chosen = countries.find(country => country.code === chosenCode)
+  const { country, national } = splitPhoneNumber(value, countries, chosen || defaultCountry)
+  const dialCountries = countries.filter(entry => entry.mobile_code)
+
+  const handleCountryChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const next = countries.find(entry => entry.code === e.target.value)
+    setChosenCode(e.target.value)
+    setDraft(null)
+    onChange(joinPhoneNumber(next, national))
+  }
+
+  const handleNumberChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const typed = e.target.value
+    setDraft(null)
+    // A pasted or typed international number brings its own dial code
+    if (/^\s*(\+|00)/.test(typed)) {
+      // Keep "+4" as typed until it can only be one country
+      if (isIncompleteDialCode(typed, countries)) {
+        setDraft(typed)
+        onChange(typed)
+        return
+      }
+      const parts = splitPhoneNumber(typed, countries, country)
+      setChosenCode(parts.country?.code ?? null)
+      onChange(joinPhoneNumber(parts.country, parts.national))
+      return
+    }
+    onChange(joinPhoneNumber(country, typed))
+  }
+
+  return (
+    <div className="phone-input">
+      <select
+        aria-label="Country dial code"
+        value={country?.code || ''}
+        onChange={handleCountryChange}
+        aria-invalid={invalid || undefined}
+      >
+        <option value="">Code</option>
+        {dialCountries.map(entry => (
+          <option key={entry.code} value={entry.code}>
+            {entry.mobile_code} {entry.name}
+          </option>
+        ))}
+      </select>
+      <input
+        type="tel"
+        id={id}
+        name={name}
+        autoComplete="tel-national"
+        inputMode="tel"
+        value={typing || !country ? value : formatNationalNumber(national, country)}
+        onChange={handleNumberChange}
+        aria-invalid={invalid || undefined}
+        aria-describedby={describedBy}
+      />
+    </div>
+  )
+}
+
+export default PhoneInput
@@ -0,0 +1,55 @@
+import type { PriceBracket } from '../types/product'
+import { useMoney } from '../hooks/useMoney'
+import { findPriceBracket, formatBracketQuantity } from '../utils/priceBrackets'
+import './PriceBracketTable.css'
+
+interface PriceBracketTableProps {
+  brackets: PriceBracket[]
+  // Regular unit price, the savings are worked out against it
+  basePrice: number
+  quantity: number
+}
+
+// "Buy more, save more" table; the row for the chosen quantity is highlighted
+function PriceBracketTable({ brackets, basePrice, quantity }: PriceBracketTableProps) {
+  const { formatPrice } = useMoney()
+
+  if (brackets.length === 0) {
+    return null
+  }
+
+  const current = findPriceBracket(brackets, quantity)
+
+  return (
+    <div className="price-brackets">
+      <h3>Buy more, save more</h3>
+      <table>
+        <thead>
+          <tr>
+            <th scope="col">Quantity</th>
+            <th scope="col">Price each</th>
+            <th scope="col">You save</th>
+          </tr>
+        </thead>
+        <tbody>
+          {brackets.map((bracket) => {
+            const saving = basePrice > 0 ? Math.round((1 - bracket.price / basePrice) * 100) : 0
+            return (
+              <tr
+                key={bracket.start_quantity}
+                className={bracket === current ? 'current' : undefined}
+                aria-current={bracket === current ? 'true' : undefined}
+              >
+                <td>{formatBracketQuantity(bracket)}</td>
+                <td>{formatPrice(bracket.price)}</td>
+                <td>{saving > 0 ? `${saving}%` : '—'}</td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+export default PriceBracketTable
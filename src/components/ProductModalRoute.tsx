@@ -0,0 +1,18 @@
+import { useNavigate, useParams } from 'react-router-dom'
+import ProductDetailModal from './ProductDetailModal'
+
+// Renders /product/:handle as a modal over the page the user came from
+function ProductModalRoute() {
+  const navigate = useNavigate()
+  const { handle } = useParams<{ handle: string }>()
+
+  return (
+    <ProductDetailModal
+      handle={handle}
+      isOpen={true}
+      onClose={() => navigate(-1)}
+    />
+  )
+}
+
+export default ProductModalRoute
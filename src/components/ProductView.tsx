@@ -0,0 +1,211 @@
+import { getProductImageUrl } from '../services/api'
+import type { Product } from '../types/product'
+import { useProductPurchase } from '../hooks/useProductPurchase'
+import { useMoney } from '../hooks/useMoney'
+import VariantSelector from './VariantSelector'
+import PriceBracketTable from './PriceBracketTable'
+
+interface ProductViewProps {
+  product: Product
+  // Selected until the customer picks another, e.g. from /product/variant/:variantId
+  variantId?: string | null
+}
+
+// Gallery, details, quantity pricing and add-to-cart for one product. The product page and
+// the modal render it inside their own layout and styles.
+function ProductView({ product, variantId }: ProductViewProps) {
+  const { formatPrice } = useMoney()
+  const {
+    selectedVariant,
+    selectVariant,
+    images,
+    mainImage,
+    selectedImageIndex,
+    setSelectedImageIndex,
+    sellingPrice,
+    priceBrackets,
+    unitPrice,
+    originalPrice,
+    isOutOfStock,
+    maxStock,
+    quantity,
+    handleQuantityChange,
+    addingToCart,
+    cartMessage,
+    handleAddToCart,
+  } = useProductPurchase(product, variantId)
+
+  const mainImageUrl = mainImage ? getProductImageUrl(mainImage.url) : '/placeholder-image.jpg'
+
+  return (
+    <div className="product-detail-content">
+      <div className="product-detail-images">
+        <div className="main-image-container">
+          <img
+            src={mainImageUrl}
+            alt={mainImage?.alternate_text || product.name}
+            className="main-image"
+            onError={(e) => {
+              (e.target as HTMLImageElement).src = '/placeholder-image.jpg'
+            }}
+          />
+          {product.on_sale && <span className="sale-badge-large">Sale</span>}
+          {isOutOfStock && (
+            <span className="out-of-stock-badge-large">Out of Stock</span>
+          )}
+        </div>
+        
+        {images.length > 1 && (
+          <div className="thumbnail-images">
+            {images.map((image, index) => (
+              <button
+                key={image.id}
+                className={`thumbnail ${selectedImageIndex === index ? 'active' : ''}`}
+                onClick={() => setSelectedImageIndex(index)}
+              >
+                <img
+                  src={getProductImageUrl(image.url)}
+                  alt={image.alternate_text || `${product.name} - Image ${index + 1}`}
+                  onError={(e) => {
+                    (e.target as HTMLImageElement).src = '/placeholder-image.jpg'
+                  }}
+                />
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="product-detail-info">
+        <h1 className="product-detail-name">{product.name}</h1>
+        
+        {product.short_description && (
+          <p className="product-detail-short-desc">{product.short_description}</p>
+        )}
+
+        <div className="product-detail-price-section">
+          {originalPrice > unitPrice && (
+            <span className="product-detail-original-price">
+              {formatPrice(originalPrice)}
+            </span>
+          )}
+          <span className="product-detail-current-price">
+            {formatPrice(unitPrice)}
+          </span>
+          {priceBrackets.length > 0 && <span className="product-detail-unit-note">each</span>}
+        </div>
+
+        <VariantSelector
+          product={product}
+          selectedVariant={selectedVariant}
+          onChange={selectVariant}
+        />
+
+        {product.description && (
+          <div className="product-detail-description">
+            <h2>Description</h2>
+            <div 
+              className="description-content"
+              dangerouslySetInnerHTML={{ __html: product.description }}
+            />
+          </div>
+        )}
+
+        {product.brand && (
+          <div className="product-detail-meta">
+            <strong>Brand:</strong> {product.brand}
+          </div>
+        )}
+
+        {product.manufacturer && (
+          <div className="product-detail-meta">
+            <strong>Manufacturer:</strong> {product.manufacturer}
+          </div>
+        )}
+
+        {selectedVariant?.sku && (
+          <div className="product-detail-meta">
+            <strong>SKU:</strong> {selectedVariant.sku}
+          </div>
+        )}
+
+        {/* Stock Information */}
+        <div className="product-stock-section">
+          <div className={`stock-badge ${isOutOfStock ? 'out-of-stock' : 'in-stock'}`}>
+            <span className="stock-label">Stock Status:</span>
+            <span className="stock-value">
+              {isOutOfStock 
+                ? 'Out of Stock' 
+                : selectedVariant
+                  ? `${selectedVariant.stock_available} available`
+                  : 'In Stock'}
+            </span>
+          </div>
+        </div>
+
+        {product.tags && product.tags.length > 0 && (
+          <div className="product-tags">
+            <h3>Tags</h3>
+            <div className="tags-list">
+              {product.tags.map((tag, index) => (
+                <span key={index} className="tag">{tag}</span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="product-detail-actions">
+          {cartMessage && (
+            <div className={`cart-message ${cartMessage.includes('successfully') ? 'success' : 'error'}`}>
+              {cartMessage}
+            </div>
+          )}
+
+          <PriceBracketTable brackets={priceBrackets} basePrice={sellingPrice} quantity={quantity} />
+
+          {/* Quantity Selector */}
+          <div className="quantity-selector">
+            <label htmlFor="quantity">Quantity:</label>
+            <div className="quantity-controls">
+              <button
+                type="button"
+                onClick={() => handleQuantityChange(quantity - 1)}
+                disabled={quantity <= 1}
+                className="quantity-btn"
+              >
+                −
+              </button>
+              <input
+                id="quantity"
+                type="number"
+                min="1"
+                max={maxStock}
+                value={quantity}
+                onChange={(e) => handleQuantityChange(parseInt(e.target.value) || 1)}
+                className="quantity-input"
+              />
+              <button
+                type="button"
+                onClick={() => handleQuantityChange(quantity + 1)}
+                disabled={isOutOfStock || (maxStock !== undefined && quantity >= maxStock)}
+                className="quantity-btn"
+              >
+                +
+              </button>
+            </div>
+          </div>
+
+          <button
+            onClick={handleAddToCart}
+            disabled={addingToCart || isOutOfStock || quantity < 1}
+            className="add-to-cart-btn"
+          >
+            {addingToCart ? 'Adding...' : 'Add to Cart'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ProductView
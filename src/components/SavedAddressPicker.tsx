@@ -0,0 +1,58 @@
+import type { Address, CheckoutAddress, Country } from '../services/api'
+import { matchesSavedAddress } from '../utils/savedAddresses'
+
+interface SavedAddressPickerProps {
+  // Radio group name, so shipping and billing pickers can share a page
+  name: string
+  addresses: Address[]
+  current: CheckoutAddress
+  countries: Country[]
+  // null means "use a new address"
+  onSelect: (address: Address | null) => void
+}
+
+// Saved addresses as selectable cards; the selection follows whatever the form holds
+function SavedAddressPicker({ name, addresses, current, countries, onSelect }: SavedAddressPickerProps) {
+  const selectedIndex = addresses.findIndex(address => matchesSavedAddress(current, address, countries))
+
+  return (
+    <div className="saved-addresses" role="radiogroup" aria-label="Saved addresses">
+      {addresses.map((address, index) => (
+        <label
+          key={index}
+          className={`shipping-method-card saved-address-card ${selectedIndex === index ? 'selected' : ''}`}
+        >
+          <input
+            type="radio"
+            name={name}
+            checked={selectedIndex === index}
+            onChange={() => onSelect(address)}
+          />
+          <span className="saved-address-text">
+            <strong>{address.full_name || `${address.first_name} ${address.last_name}`}</strong>
+            {address.company && <span>{address.company}</span>}
+            <span>{address.address}{address.street2 && `, ${address.street2}`}</span>
+            <span>
+              {address.city}, {address.state_name || address.state} {address.postal_code}
+            </span>
+            <span>{address.country_name || address.country}</span>
+          </span>
+        </label>
+      ))}
+
+      <label className={`shipping-method-card saved-address-card ${selectedIndex === -1 ? 'selected' : ''}`}>
+        <input
+          type="radio"
+          name={name}
+          checked={selectedIndex === -1}
+          onChange={() => onSelect(null)}
+        />
+        <span className="saved-address-text">
+          <strong>Use a new address</strong>
+        </span>
+      </label>
+    </div>
+  )
+}
+
+export default SavedAddressPicker
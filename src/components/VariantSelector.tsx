@@ -0,0 +1,66 @@
+import type { Product, ProductVariant } from '../types/product'
+import {
+  getVariantOptionGroups,
+  getVariantSelection,
+  isOptionAvailable,
+  selectVariantOption,
+} from '../utils/variants'
+import './VariantSelector.css'
+
+interface VariantSelectorProps {
+  product: Product
+  selectedVariant: ProductVariant | undefined
+  onChange: (variant: ProductVariant) => void
+}
+
+function VariantSelector({ product, selectedVariant, onChange }: VariantSelectorProps) {
+  const groups = getVariantOptionGroups(product)
+
+  if (!product.has_variants || groups.length === 0) {
+    return null
+  }
+
+  const selection = selectedVariant ? getVariantSelection(selectedVariant) : {}
+
+  const handleSelect = (name: string, value: string) => {
+    const variant = selectVariantOption(product, selection, name, value)
+    if (variant) {
+      onChange(variant)
+    }
+  }
+
+  return (
+    <div className="variant-selector">
+      {groups.map((group) => (
+        <div key={group.name} className="variant-option-group">
+          <span className="variant-option-label">
+            {group.name}: <strong>{selection[group.name] || 'Select'}</strong>
+          </span>
+          <div className="variant-option-values" role="radiogroup" aria-label={group.name}>
+            {group.values.map((value) => {
+              const isSelected = selection[group.name] === value
+              const isAvailable = isOptionAvailable(product, selection, group.name, value)
+
+              return (
+                <button
+                  key={value}
+                  type="button"
+                  role="radio"
+                  aria-checked={isSelected}
+                  className={`variant-option ${isSelected ? 'selected' : ''} ${isAvailable ? '' : 'unavailable'}`}
+                  onClick={() => handleSelect(group.name, value)}
+                  disabled={!isAvailable && !isSelected}
+                  title={isAvailable ? value : `${value} - unavailable`}
+                >
+                  {value}
+                </button>
+              )
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default VariantSelector
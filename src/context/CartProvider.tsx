@@ -0,0 +1,309 @@
+import { useState, useEffect, useMemo, useCallback, useRef, type ReactNode } from 'react'
+import {
+  addToCart,
+  applyCoupon as applyCartCoupon,
+  getCartItems,
+  removeCartItem,
+  removeCoupon as removeCartCoupon,
+  updateCartItemQuantity,
+  type CartItemResponse,
+} from '../services/api'
+import { isAbortError } from '../services/errors'
+import type { AppliedCoupon, CartItem } from '../types/cart'
+import { deleteCartId, getCartId } from '../utils/cookies'
+import { normalizePriceBrackets, unitPriceForQuantity } from '../utils/priceBrackets'
+import Cart from '../components/Cart'
+import { CartContext } from './cartContext'
+
+interface CartProviderProps {
+  children: ReactNode
+}
+
+// Lines with quantity pricing move between brackets as their quantity changes
+const withQuantity = (item: CartItem, quantity: number): CartItem => ({
+  ...item,
+  quantity,
+  price: unitPriceForQuantity(item.price_brackets, quantity, item.price),
+})
+
+// get-cart lines carry quantity pricing only when n8n sends price_brackets, plus base_price (the
+// variant's regular unit price) when they don't start at 1. Lines without brackets keep the ones
+// the product view added them with. Without a base price the brackets are left as they are and
+// the store re-prices the line after each change (see updateQuantity).
+const normalizeCartItems = (items: CartItem[], previous: CartItem[]): CartItem[] => {
+  return items.map((item) => {
+    const known = previous.find(entry => entry.variant_id === item.variant_id)
+    const brackets = item.price_brackets?.length ? item.price_brackets : known?.price_brackets
+    if (!brackets?.length) return item
+
+    // Below the first bracket the line's own price is the regular one
+    const firstStart = Math.min(...brackets.map(bracket => bracket.start_quantity))
+    const basePrice = item.base_price ?? known?.base_price ?? (item.quantity < firstStart ? item.price : undefined)
+    return basePrice === undefined
+      ? { ...item, price_brackets: brackets }
+      : { ...item, base_price: basePrice, price_brackets: normalizePriceBrackets(brackets, basePrice) }
+  })
+}
+
+const changeQuantity = (items: CartItem[], variantId: string, delta: number): CartItem[] => {
+  return items
+    .map(item => item.variant_id === variantId ? withQuantity(item, item.quantity + delta) : item)
+    .filter(item => item.quantity > 0)
+}
+
+function CartProvider({ children }: CartProviderProps) {
+  const [items, setItems] = useState<CartItem[]>([])
+  const [coupon, setCoupon] = useState<AppliedCoupon | null>(null)
+  const [loading, setLoading] = useState(() => !!getCartId())
+  const [error, setError] = useState<string | null>(null)
+  const [updateError, setUpdateError] = useState<string | null>(null)
+  const [pendingItemIds, setPendingItemIds] = useState<string[]>([])
+  const [isDrawerOpen, setIsDrawerOpen] = useState(false)
+  // Bumped by every local change to the cart, so a get-cart that started before one is dropped
+  const changeCount = useRef(0)
+  // Changes sent to the store and not yet answered, and whether a refresh waits for them
+  const inFlightChanges = useRef(0)
+  const refreshQueued = useRef(false)
+
+  const applyCart = useCallback((response: CartItemResponse) => {
+    setItems(prev => normalizeCartItems(response.payload?.items || [], prev))
+    setCoupon(response.payload?.coupon ?? null)
+  }, [])
+
+  // The discount depends on the items, so ask the store again after they change. A load
+  // already in flight may predate the change, so this one is never shared. While other
+  // changes are still on their way the answer would be stale, so it waits for them.
+  const refreshInBackground = useCallback(function refresh(reason: string) {
+    const cartId = getCartId()
+    if (!cartId) return
+    if (inFlightChanges.current > 0) {
+      refreshQueued.current = true
+      return
+    }
+
+    const startedAt = changeCount.current
+    getCartItems(cartId, { fresh: true })
+      .then((response) => {
+        if (startedAt === changeCount.current) {
+          applyCart(response)
+        } else {
+          refresh(reason)
+        }
+      })
+      .catch(err => console.error(`Failed to refresh cart after ${reason}:`, err))
+  }, [applyCart])
+
+  const refreshCart = useCallback(async (signal?: AbortSignal) => {
+    const cartId = getCartId()
+    if (!cartId) {
+      setItems([])
+      setCoupon(null)
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+      const startedAt = changeCount.current
+      const response = await getCartItems(cartId, { signal })
+      if (startedAt === changeCount.current) {
+        applyCart(response)
+      } else {
+        refreshInBackground('loading')
+      }
+    } catch (err) {
+      if (isAbortError(err)) return
+
+      console.error('Failed to load cart from API:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load cart')
+      setItems([])
+      setCoupon(null)
+    }
+    setLoading(false)
+  }, [applyCart, refreshInBackground])
+
+  // Load once for the whole app; mutations keep the items in sync from then on
+  useEffect(() => {
+    const controller = new AbortController()
+    refreshCart(controller.signal)
+
+    return () => {
+      controller.abort()
+    }
+  }, [refreshCart])
+
+  const trackPending = useCallback((variantId: string, pending: boolean) => {
+    changeCount.current++
+    inFlightChanges.current += pending ? 1 : -1
+    setPendingItemIds(prev => pending
+      ? [...prev, variantId]
+      : prev.filter(id => id !== variantId))
+
+    if (!pending && inFlightChanges.current === 0 && refreshQueued.current) {
+      refreshQueued.current = false
+      refreshInBackground('changes settled')
+    }
+  }, [refreshInBackground])
+
+  const addItem = useCallback(async (item: CartItem) => {
+    // Show the item straight away; roll back only this addition if the store refuses it
+    setItems(prev => prev.some(existing => existing.variant_id === item.variant_id)
+      ? changeQuantity(normalizeCartItems(prev, [item]), item.variant_id, item.quantity)
+      : [...prev, item])
+    trackPending(item.variant_id, true)
+
+    try {
+      await addToCart(item.variant_id, item.quantity)
+    } catch (err) {
+      setItems(prev => changeQuantity(prev, item.variant_id, -item.quantity))
+      throw err
+    } finally {
+      trackPending(item.variant_id, false)
+    }
+
+    // Pick up server-side prices and line details in the background
+    refreshInBackground('adding')
+  }, [trackPending, refreshInBackground])
+
+  const removeItem = useCallback(async (variantId: string) => {
+    const index = items.findIndex(item => item.variant_id === variantId)
+    if (index === -1) return
+    const removed = items[index]
+
+    // Remove optimistically so totals update immediately
+    setItems(prev => prev.filter(item => item.variant_id !== variantId))
+    setUpdateError(null)
+    trackPending(variantId, true)
+
+    try {
+      await removeCartItem(variantId)
+      // Other changes may be in flight, so the store says whether the cart is now empty;
+      // an empty get-cart drops the cart cookie and the coupon
+      refreshInBackground('removing')
+    } catch (err) {
+      console.error('Failed to remove cart item:', err)
+      // Put just this line back where it was, leaving other changes made meanwhile alone
+      setItems(prev => prev.some(item => item.variant_id === variantId)
+        ? prev
+        : [...prev.slice(0, index), removed, ...prev.slice(index)])
+      setUpdateError(err instanceof Error ? err.message : 'Failed to remove item')
+    } finally {
+      trackPending(variantId, false)
+    }
+  }, [items, trackPending, refreshInBackground])
+
+  const updateQuantity = useCallback(async (variantId: string, quantity: number) => {
+    if (quantity < 1) {
+      await removeItem(variantId)
+      return
+    }
+
+    const previous = items.find(item => item.variant_id === variantId)
+    if (!previous) return
+
+    setItems(prev => prev.map(item =>
+      item.variant_id === variantId ? withQuantity(item, quantity) : item
+    ))
+    setUpdateError(null)
+    trackPending(variantId, true)
+
+    try {
+      await updateCartItemQuantity(variantId, quantity)
+      // The discount and quantity pricing are the store's to work out
+      if (coupon || previous.price_brackets?.length) {
+        refreshInBackground('updating')
+      }
+    } catch (err) {
+      console.error('Failed to update cart item:', err)
+      setItems(prev => prev.map(item =>
+        item.variant_id === variantId ? withQuantity(item, previous.quantity) : item
+      ))
+      setUpdateError(err instanceof Error ? err.message : 'Failed to update quantity')
+    } finally {
+      trackPending(variantId, false)
+    }
+  }, [items, coupon, removeItem, trackPending, refreshInBackground])
+
+  const applyCoupon = useCallback(async (code: string) => {
+    const cartId = getCartId()
+    if (!cartId) throw new Error('Add something to your cart before using a discount code')
+
+    // Not every store echoes the coupon back; the cart always carries it
+    const response = await applyCartCoupon(cartId, code)
+    changeCount.current++
+    if (response.payload?.coupon) {
+      setCoupon(response.payload.coupon)
+    } else {
+      refreshInBackground('applying a code')
+    }
+  }, [refreshInBackground])
+
+  const removeCoupon = useCallback(async () => {
+    const cartId = getCartId()
+    if (!cartId) return
+
+    await removeCartCoupon(cartId)
+    changeCount.current++
+    setCoupon(null)
+  }, [])
+
+  const clearCart = useCallback(() => {
+    changeCount.current++
+    deleteCartId()
+    setItems([])
+    setCoupon(null)
+    setUpdateError(null)
+  }, [])
+
+  const openDrawer = useCallback(() => setIsDrawerOpen(true), [])
+  const closeDrawer = useCallback(() => setIsDrawerOpen(false), [])
+
+  const value = useMemo(() => ({
+    items,
+    itemCount: items.reduce((sum, item) => sum + item.quantity, 0),
+    totalPrice: items.reduce((sum, item) => sum + item.price * item.quantity, 0),
+    coupon,
+    discount: coupon?.discount ?? 0,
+    loading,
+    error,
+    updateError,
+    pendingItemIds,
+    isDrawerOpen,
+    openDrawer,
+    closeDrawer,
+    refreshCart,
+    addItem,
+    removeItem,
+    updateQuantity,
+    applyCoupon,
+    removeCoupon,
+    clearCart,
+  }), [
+    items,
+    coupon,
+    loading,
+    error,
+    updateError,
+    pendingItemIds,
+    isDrawerOpen,
+    openDrawer,
+    closeDrawer,
+    refreshCart,
+    addItem,
+    removeItem,
+    updateQuantity,
+    applyCoupon,
+    removeCoupon,
+    clearCart,
+  ])
+
+  return (
+    <CartContext.Provider value={value}>
+      {children}
+      <Cart isOpen={isDrawerOpen} onClose={closeDrawer} />
+    </CartContext.Provider>
+  )
+}
+
+export default CartProvider
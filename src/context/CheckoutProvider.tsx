@@ -0,0 +1,60 @@
+import { useState, useEffect, useMemo, useCallback, type ReactNode } from 'react'
+import {
+  clearCheckoutProgress,
+  createCheckoutProgress,
+  loadCheckoutProgress,
+  saveCheckoutProgress,
+  stepsThrough,
+  type CheckoutProgress,
+  type CheckoutStepId,
+} from '../utils/checkoutProgress'
+import { CheckoutContext } from './checkoutContext'
+
+interface CheckoutProviderProps {
+  cartId: string
+  children: ReactNode
+}
+
+// Remount with a `key` of the cart id so another cart starts from its own progress
+function CheckoutProvider({ cartId, children }: CheckoutProviderProps) {
+  const [progress, setProgress] = useState<CheckoutProgress>(() => loadCheckoutProgress(cartId))
+  const [finished, setFinished] = useState(false)
+
+  useEffect(() => {
+    if (!finished) {
+      saveCheckoutProgress(cartId, progress)
+    }
+  }, [cartId, progress, finished])
+
+  const updateProgress = useCallback((
+    update: Partial<CheckoutProgress> | ((prev: CheckoutProgress) => Partial<CheckoutProgress>)
+  ) => {
+    setProgress(prev => ({ ...prev, ...(typeof update === 'function' ? update(prev) : update) }))
+  }, [])
+
+  const completeStep = useCallback((stepId: CheckoutStepId, update: Partial<CheckoutProgress> = {}) => {
+    setProgress(prev => ({ ...prev, ...update, completedSteps: stepsThrough(stepId) }))
+  }, [])
+
+  const resetProgress = useCallback(() => {
+    setFinished(true)
+    clearCheckoutProgress(cartId)
+    setProgress(createCheckoutProgress())
+  }, [cartId])
+
+  const value = useMemo(() => ({
+    cartId,
+    progress,
+    updateProgress,
+    completeStep,
+    resetProgress,
+  }), [cartId, progress, updateProgress, completeStep, resetProgress])
+
+  return (
+    <CheckoutContext.Provider value={value}>
+      {children}
+    </CheckoutContext.Provider>
+  )
+}
+
+export default CheckoutProvider
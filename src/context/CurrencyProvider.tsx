@@ -0,0 +1,45 @@
+import { useState, useEffect, useMemo, type ReactNode } from 'react'
+import { getStoreCurrency } from '../services/api'
+import { isAbortError } from '../services/errors'
+import type { StoreCurrency } from '../types/product'
+import { DEFAULT_CURRENCY, formatMoney } from '../utils/money'
+import { CurrencyContext } from './currencyContext'
+
+interface CurrencyProviderProps {
+  children: ReactNode
+}
+
+function CurrencyProvider({ children }: CurrencyProviderProps) {
+  const [currency, setCurrency] = useState<StoreCurrency>(DEFAULT_CURRENCY)
+
+  // Seed from the products response; pages that load products themselves update it too
+  useEffect(() => {
+    const controller = new AbortController()
+
+    getStoreCurrency({ signal: controller.signal })
+      .then(setCurrency)
+      .catch((err) => {
+        if (isAbortError(err)) return
+        // Keep the default currency; the page's own request will surface the error
+        console.error('Failed to load store currency:', err)
+      })
+
+    return () => {
+      controller.abort()
+    }
+  }, [])
+
+  const value = useMemo(() => ({
+    currency,
+    formatPrice: (amount: number) => formatMoney(amount, currency),
+    setCurrency,
+  }), [currency])
+
+  return (
+    <CurrencyContext.Provider value={value}>
+      {children}
+    </CurrencyContext.Provider>
+  )
+}
+
+export default CurrencyProvider
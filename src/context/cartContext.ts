@@ -0,0 +1,51 @@
+import { createContext } from 'react'
+import type { AppliedCoupon, CartItem } from '../types/cart'
+
+export interface CartContextValue {
+  items: CartItem[]
+  itemCount: number
+  // Item subtotal, before the coupon discount
+  totalPrice: number
+  coupon: AppliedCoupon | null
+  discount: number
+  loading: boolean
+  error: string | null
+  // Last failed remove/update, shown next to the line items
+  updateError: string | null
+  pendingItemIds: string[]
+  isDrawerOpen: boolean
+  openDrawer: () => void
+  closeDrawer: () => void
+  refreshCart: (signal?: AbortSignal) => Promise<void>
+  // Rejects when the store refuses the item so the caller can show why
+  addItem: (item: CartItem) => Promise<void>
+  removeItem: (variantId: string) => Promise<void>
+  updateQuantity: (variantId: string, quantity: number) => Promise<void>
+  // Both reject with the store's reason, see describeCouponError
+  applyCoupon: (code: string) => Promise<void>
+  removeCoupon: () => Promise<void>
+  // Forget the cart locally once it has been turned into an order
+  clearCart: () => void
+}
+
+export const CartContext = createContext<CartContextValue>({
+  items: [],
+  itemCount: 0,
+  totalPrice: 0,
+  coupon: null,
+  discount: 0,
+  loading: false,
+  error: null,
+  updateError: null,
+  pendingItemIds: [],
+  isDrawerOpen: false,
+  openDrawer: () => {},
+  closeDrawer: () => {},
+  refreshCart: async () => {},
+  addItem: async () => {},
+  removeItem: async () => {},
+  updateQuantity: async () => {},
+  applyCoupon: async () => {},
+  removeCoupon: async () => {},
+  clearCart: () => {},
+})
@@ -0,0 +1,26 @@
+import { createContext } from 'react'
+import {
+  createCheckoutProgress,
+  type CheckoutProgress,
+  type CheckoutStepId,
+} from '../utils/checkoutProgress'
+
+export interface CheckoutContextValue {
+  cartId: string
+  progress: CheckoutProgress
+  // Merge unconfirmed edits into the saved progress; a function gets the latest progress
+  updateProgress: (update: Partial<CheckoutProgress> | ((prev: CheckoutProgress) => Partial<CheckoutProgress>)) => void
+  // Mark a step done; later steps have to be confirmed again
+  completeStep: (stepId: CheckoutStepId, update?: Partial<CheckoutProgress>) => void
+  // Forget the saved progress once the order has been placed
+  resetProgress: () => void
+}
+
+export const CheckoutContext = createContext<CheckoutContextValue>({
+  cartId: '',
+  progress: createCheckoutProgress(),
+  updateProgress: () => {},
+  completeStep: () => {},
+  resetProgress: () => {},
+})
+
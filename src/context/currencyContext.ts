@@ -0,0 +1,15 @@
+import { createContext } from 'react'
+import type { StoreCurrency } from '../types/product'
+import { DEFAULT_CURRENCY, formatMoney } from '../utils/money'
+
+export interface CurrencyContextValue {
+  currency: StoreCurrency
+  formatPrice: (amount: number) => string
+  setCurrency: (currency: StoreCurrency) => void
+}
+
+export const CurrencyContext = createContext<CurrencyContextValue>({
+  currency: DEFAULT_CURRENCY,
+  formatPrice: (amount) => formatMoney(amount, DEFAULT_CURRENCY),
+  setCurrency: () => {},
+})
@@ -0,0 +1,5 @@
+import { useContext } from 'react'
+import { CartContext } from '../context/cartContext'
+
+// App-wide cart items, totals and optimistic cart actions
+export const useCart = () => useContext(CartContext)
@@ -0,0 +1,5 @@
+import { useContext } from 'react'
+import { CheckoutContext } from '../context/checkoutContext'
+
+// Checkout wizard progress for the current cart
+export const useCheckout = () => useContext(CheckoutContext)
@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback } from 'react'
+import { getCheckoutData, type CheckoutOrder } from '../services/api'
+import { isAbortError } from '../services/errors'
+
+interface SummaryResult {
+  key: string
+  order: CheckoutOrder | null
+  error: string | null
+}
+
+// Server-side totals for a checkout. Pass a `revision` that changes with anything
+// the store prices on (address, shipping method, cart lines) to fetch them again.
+export const useCheckoutSummary = (cartId: string, revision: string) => {
+  const [attempt, setAttempt] = useState(0)
+  const [result, setResult] = useState<SummaryResult | null>(null)
+  const key = `${cartId}:${revision}:${attempt}`
+  // A result for an earlier revision is out of date, not a summary to show
+  const current = result?.key === key ? result : null
+
+  useEffect(() => {
+    const controller = new AbortController()
+    getCheckoutData(cartId, { signal: controller.signal })
+      .then(response => {
+        const order = response.payload?.checkout?.order ?? null
+        setResult({ key, order, error: order ? null : 'The store did not return an order summary.' })
+      })
+      .catch((err) => {
+        if (isAbortError(err)) return
+        console.error('Failed to load checkout summary:', err)
+        setResult({ key, order: null, error: err instanceof Error ? err.message : 'Failed to load order summary' })
+      })
+
+    return () => controller.abort()
+  }, [cartId, key])
+
+  const retry = useCallback(() => setAttempt(value => value + 1), [])
+
+  return {
+    order: current?.order ?? null,
+    loading: !current,
+    error: current?.error ?? null,
+    retry,
+  }
+}
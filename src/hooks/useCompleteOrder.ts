@@ -0,0 +1,32 @@
+import { useCallback } from 'react'
+import { useNavigate } from 'react-router-dom'
+import type { ConfirmCheckoutResponse } from '../services/api'
+import { useCart } from './useCart'
+import { useCheckout } from './useCheckout'
+
+// Once the order exists: forget the wizard progress, the cart_id cookie and the cart badge,
+// then show the receipt
+export const useCompleteOrder = () => {
+  const navigate = useNavigate()
+  const { clearCart } = useCart()
+  const { cartId, progress, resetProgress } = useCheckout()
+
+  return useCallback((placed: ConfirmCheckoutResponse['payload']) => {
+    resetProgress()
+    clearCart()
+
+    const order = placed?.order
+    if (order) {
+      // The token lets the receipt be fetched again after a reload or from a saved link
+      const search = placed.order_token ? `?${new URLSearchParams({ token: placed.order_token })}` : ''
+      // The receipt names the payment mode from the store's list, which goes with the progress
+      navigate(`/order/confirmation/${encodeURIComponent(order.salesorder_id)}${search}`, {
+        replace: true,
+        state: { order, paymentModes: progress.paymentModes },
+      })
+    } else {
+      // Nothing to show a receipt from; the order was still placed
+      navigate(`/order/received?${new URLSearchParams({ reference: cartId })}`, { replace: true })
+    }
+  }, [navigate, clearCart, resetProgress, cartId, progress.paymentModes])
+}
@@ -0,0 +1,5 @@
+import { useContext } from 'react'
+import { CurrencyContext } from '../context/currencyContext'
+
+// Store-currency aware price formatting for components
+export const useMoney = () => useContext(CurrencyContext)
@@ -0,0 +1,41 @@
+import { useState, useEffect, useCallback } from 'react'
+import { fetchPaymentSession, type PaymentSession } from '../services/api'
+import { isAbortError } from '../services/errors'
+
+interface SessionResult {
+  key: string
+  session: PaymentSession | null
+  error: string | null
+}
+
+// The payment provider's word on a card payment, e.g. after its hosted page sent the customer back
+export const usePaymentSession = (sessionId: string) => {
+  const [attempt, setAttempt] = useState(0)
+  const [result, setResult] = useState<SessionResult | null>(null)
+  const key = `${sessionId}:${attempt}`
+  const current = result?.key === key ? result : null
+
+  useEffect(() => {
+    if (!sessionId) return
+
+    const controller = new AbortController()
+    fetchPaymentSession(sessionId, { signal: controller.signal })
+      .then(session => setResult({ key, session, error: null }))
+      .catch((err) => {
+        if (isAbortError(err)) return
+        console.error('Failed to verify payment:', err)
+        setResult({ key, session: null, error: err instanceof Error ? err.message : 'Failed to verify payment' })
+      })
+
+    return () => controller.abort()
+  }, [sessionId, key])
+
+  const retry = useCallback(() => setAttempt(value => value + 1), [])
+
+  return {
+    session: current?.session ?? null,
+    loading: Boolean(sessionId) && !current,
+    error: sessionId ? current?.error ?? null : 'This page needs a payment session.',
+    retry,
+  }
+}
@@ -0,0 +1,122 @@
+import { useState } from 'react'
+import { useLocation, useSearchParams } from 'react-router-dom'
+import { useCart } from './useCart'
+import type { Product, ProductVariant } from '../types/product'
+import { getPriceBrackets, unitPriceForQuantity } from '../utils/priceBrackets'
+import { getInitialVariant, isVariantPurchasable } from '../utils/variants'
+
+// Variant selection, quantity and add-to-cart state shared by the product modal and page.
+// The selected variant lives in the `variant` query param so it survives reloads and shared links.
+export const useProductPurchase = (product: Product | null, defaultVariantId?: string | null) => {
+  const location = useLocation()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const { addItem, openDrawer } = useCart()
+  const [selectedImageIndex, setSelectedImageIndex] = useState(0)
+  const [quantity, setQuantity] = useState(1)
+  const [addingToCart, setAddingToCart] = useState(false)
+  const [cartMessage, setCartMessage] = useState<string | null>(null)
+  const [currentProductId, setCurrentProductId] = useState(product?.product_id)
+
+  // Start fresh whenever a different product is shown
+  if (product?.product_id !== currentProductId) {
+    setCurrentProductId(product?.product_id)
+    setSelectedImageIndex(0)
+    setQuantity(1)
+    setCartMessage(null)
+  }
+
+  const selectedVariant = product
+    ? getInitialVariant(product, searchParams.get('variant') || defaultVariantId)
+    : undefined
+
+  // Stock limit of the selected variant, undefined when the product has no variants
+  const maxStock = selectedVariant?.stock_available
+
+  // Variant images take over the gallery when the selected variant has its own
+  const images = selectedVariant?.images && selectedVariant.images.length > 0
+    ? selectedVariant.images
+    : product?.images || []
+  const mainImage = images[selectedImageIndex] || images[0]
+
+  const sellingPrice = selectedVariant?.selling_price ?? product?.selling_price ?? 0
+  const labelPrice = selectedVariant?.label_price ?? product?.label_price ?? 0
+  // Bulk pricing follows the chosen quantity
+  const priceBrackets = product ? getPriceBrackets(product, selectedVariant, sellingPrice) : []
+  const unitPrice = unitPriceForQuantity(priceBrackets, quantity, sellingPrice)
+  // Struck through next to the unit price: the list price, or the regular price once a bulk price applies
+  const originalPrice = Math.max(labelPrice, sellingPrice)
+  const isOutOfStock = selectedVariant ? !isVariantPurchasable(selectedVariant) : !!product?.is_out_of_stock
+
+  const selectVariant = (variant: ProductVariant) => {
+    const nextParams = new URLSearchParams(searchParams)
+    nextParams.set('variant', variant.variant_id)
+    // Keep router state so a modal opened over the catalog stays a modal
+    setSearchParams(nextParams, { replace: true, state: location.state })
+    setSelectedImageIndex(0)
+
+    // Keep the chosen quantity within the new variant's stock
+    if (variant.stock_available && quantity > variant.stock_available) {
+      setQuantity(variant.stock_available)
+    }
+  }
+
+  const handleQuantityChange = (newQuantity: number) => {
+    if (newQuantity < 1) return
+    if (maxStock && newQuantity > maxStock) {
+      setQuantity(maxStock)
+    } else {
+      setQuantity(newQuantity)
+    }
+  }
+
+  const handleAddToCart = async () => {
+    if (!product || quantity < 1) return
+
+    const variantIdToAdd = selectedVariant ? selectedVariant.variant_id : product.product_id
+
+    try {
+      setAddingToCart(true)
+      setCartMessage(null)
+      await addItem({
+        product_id: product.product_id,
+        variant_id: variantIdToAdd,
+        quantity,
+        name: product.name,
+        price: unitPrice,
+        image: mainImage?.url,
+        price_brackets: priceBrackets.length > 0 ? priceBrackets : undefined,
+        base_price: sellingPrice,
+      })
+
+      setCartMessage('Product added to cart successfully!')
+      setTimeout(() => setCartMessage(null), 3000)
+      setQuantity(1) // Reset quantity after adding
+      openDrawer()
+    } catch (err) {
+      setCartMessage(err instanceof Error ? err.message : 'Failed to add to cart')
+      setTimeout(() => setCartMessage(null), 5000)
+    } finally {
+      setAddingToCart(false)
+    }
+  }
+
+  return {
+    selectedVariant,
+    selectVariant,
+    images,
+    mainImage,
+    selectedImageIndex,
+    setSelectedImageIndex,
+    sellingPrice,
+    priceBrackets,
+    unitPrice,
+    originalPrice,
+    isOutOfStock,
+    maxStock,
+    quantity,
+    handleQuantityChange,
+    addingToCart,
+    cartMessage,
+    handleAddToCart,
+  }
+}
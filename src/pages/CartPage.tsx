@@ -1,126 +1,27 @@
-import { useState, useEffect } from 'react'
 import { useNavigate, Link } from 'react-router-dom'
-import { getCartId } from '../utils/cookies'
-import { getCartItems, type CartItemResponse } from '../services/api'
 import { getProductImageUrl } from '../services/api'
+import { useCart } from '../hooks/useCart'
+import { useMoney } from '../hooks/useMoney'
+import CouponForm from '../components/CouponForm'
 import './CartPage.css'
 
-interface CartItem {
-  product_id: string
-  variant_id: string
-  quantity: number
-  name: string
-  price: number
-  image?: string
-}
-
-// Shared promise map to prevent duplicate calls in StrictMode (keyed by cartId)
-const cartPromises = new Map<string, Promise<CartItemResponse>>()
-
 function CartPage() {
+  const { formatPrice } = useMoney()
   const navigate = useNavigate()
-  const [cartItems, setCartItems] = useState<CartItem[]>([])
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-
-  const loadCartItems = async (useCache: boolean = true) => {
-    const cartId = getCartId()
-    
-    if (!cartId) {
-      setCartItems([])
-      setLoading(false)
-      return
-    }
-
-    try {
-      setLoading(true)
-      setError(null)
-      
-      let response: CartItemResponse
-      
-      if (useCache) {
-        // Reuse existing promise if available (prevents duplicate calls in StrictMode)
-        let cartPromise = cartPromises.get(cartId)
-        if (!cartPromise) {
-          cartPromise = getCartItems(cartId)
-          cartPromises.set(cartId, cartPromise)
-        }
-        response = await cartPromise
-        
-        // Reset promise after a short delay to allow for StrictMode remount
-        setTimeout(() => {
-          cartPromises.delete(cartId)
-        }, 100)
-      } else {
-        // Always create new request when manually reloading (retry, remove item, etc.)
-        response = await getCartItems(cartId)
-      }
-      
-      // Extract items from API response
-      const apiItems = response.payload?.items || []
-      
-      // Transform API items to CartItem format
-      const transformedItems: CartItem[] = apiItems.map((item: any) => ({
-        product_id: item.product_id || '',
-        variant_id: item.product_variant_id || '',
-        quantity: item.quantity || 1,
-        name: item.name || item.product_name || 'Product',
-        price: item.price || item.selling_price || 0,
-        image: item.image || item.image_url || undefined,
-      }))
-      
-      setCartItems(transformedItems)
-    } catch (err) {
-      console.error('Failed to load cart from API:', err)
-      setError(err instanceof Error ? err.message : 'Failed to load cart')
-      setCartItems([])
-      // Reset promise on error so it can be retried
-      if (cartId) {
-        cartPromises.delete(cartId)
-      }
-    } finally {
-      setLoading(false)
-    }
-  }
-
-  useEffect(() => {
-    let isMounted = true
-
-    const initLoad = async () => {
-      const cartId = getCartId()
-      
-      if (!cartId) {
-        if (isMounted) {
-          setCartItems([])
-          setLoading(false)
-        }
-        return
-      }
-
-      // Use cache on initial load to prevent duplicate calls
-      await loadCartItems(true)
-    }
-
-    initLoad()
-
-    // Cleanup function
-    return () => {
-      isMounted = false
-    }
-  }, [])
-
-  const handleRemoveItem = (_variantId: string) => {
-    // TODO: Implement API call to remove item from cart
-    // For now, just reload cart items (don't use cache when manually reloading)
-    loadCartItems(false)
-  }
-
-  const formatPrice = (price: number): string => {
-    return new Intl.NumberFormat('vi-VN').format(price)
-  }
-
-  const totalItems = cartItems.reduce((sum, item) => sum + item.quantity, 0)
-  const totalPrice = cartItems.reduce((sum, item) => sum + (item.price || 0) * item.quantity, 0)
+  const {
+    items: cartItems,
+    itemCount: totalItems,
+    totalPrice,
+    coupon,
+    discount,
+    loading,
+    error,
+    updateError,
+    pendingItemIds,
+    refreshCart,
+    removeItem,
+    updateQuantity,
+  } = useCart()
 
   return (
     <div className="cart-page-container">
@@ -139,7 +40,7 @@ function CartPage() {
         {error && !loading && (
           <div className="cart-error">
             <p>{error}</p>
-            <button onClick={() => loadCartItems(false)} className="retry-btn">
+            <button onClick={() => refreshCart()} className="retry-btn">
               Retry
             </button>
           </div>
@@ -156,6 +57,10 @@ function CartPage() {
         
         {!loading && !error && cartItems.length > 0 && (
           <>
+            {updateError && (
+              <div className="cart-update-error">{updateError}</div>
+            )}
+
             <div className="cart-items-list">
               {cartItems.map((item) => (
                 <div key={item.variant_id} className="cart-item-card">
@@ -172,15 +77,38 @@ function CartPage() {
                   <div className="cart-item-details">
                     <h3 className="cart-item-name">{item.name || 'Product'}</h3>
                     <div className="cart-item-price">
-                      {item.price && formatPrice(item.price)} USD
+                      {formatPrice(item.price || 0)}
                     </div>
                     <div className="cart-item-quantity">
-                      Quantity: {item.quantity}
+                      <span>Quantity:</span>
+                      <div className="cart-quantity-stepper">
+                        <button
+                          type="button"
+                          onClick={() => updateQuantity(item.variant_id, item.quantity - 1)}
+                          disabled={pendingItemIds.includes(item.variant_id)}
+                          aria-label="Decrease quantity"
+                        >
+                          −
+                        </button>
+                        <span className="cart-quantity-value">{item.quantity}</span>
+                        <button
+                          type="button"
+                          onClick={() => updateQuantity(item.variant_id, item.quantity + 1)}
+                          disabled={pendingItemIds.includes(item.variant_id)}
+                          aria-label="Increase quantity"
+                        >
+                          +
+                        </button>
+                      </div>
+                    </div>
+                    <div className="cart-item-subtotal">
+                      Subtotal: {formatPrice(item.price * item.quantity)}
                     </div>
                   </div>
                   <button
                     className="cart-item-remove"
-                    onClick={() => handleRemoveItem(item.variant_id)}
+                    onClick={() => removeItem(item.variant_id)}
+                    disabled={pendingItemIds.includes(item.variant_id)}
                     aria-label="Remove item"
                   >
                     ×
@@ -195,11 +123,24 @@ function CartPage() {
                   <span>Items:</span>
                   <span>{totalItems}</span>
                 </div>
+                {coupon && (
+                  <>
+                    <div className="cart-summary-row">
+                      <span>Subtotal:</span>
+                      <span>{formatPrice(totalPrice)}</span>
+                    </div>
+                    <div className="cart-summary-row cart-discount">
+                      <span>Discount ({coupon.code}):</span>
+                      <span>−{formatPrice(discount)}</span>
+                    </div>
+                  </>
+                )}
                 <div className="cart-summary-row cart-total">
                   <span>Total Price:</span>
-                  <span>{formatPrice(totalPrice)} USD</span>
+                  <span>{formatPrice(Math.max(0, totalPrice - discount))}</span>
                 </div>
               </div>
+              <CouponForm />
               <div className="cart-actions">
                 <Link to="/" className="continue-shopping-link">
                   Continue Shopping
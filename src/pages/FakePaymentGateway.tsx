@@ -0,0 +1,90 @@
+import { useState } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { completeFakePayment, type PaymentSessionStatus } from '../services/api'
+import { useMoney } from '../hooks/useMoney'
+import { usePaymentSession } from '../hooks/usePaymentSession'
+import { followPaymentRedirect } from '../utils/paymentRedirect'
+import './FakePaymentGateway.css'
+
+type Outcome = Exclude<PaymentSessionStatus, 'open'>
+
+// Stand-in for a provider's hosted card page, used by the fake payment provider so the
+// whole card flow can be tried without a real gateway. No card details are collected.
+function FakePaymentGateway() {
+  const { formatPrice } = useMoney()
+  const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
+  const sessionId = searchParams.get('session_id') || ''
+  const { session, loading, error, retry } = usePaymentSession(sessionId)
+  const [submitting, setSubmitting] = useState<Outcome | null>(null)
+  const [submitError, setSubmitError] = useState<string | null>(null)
+
+  const finish = async (outcome: Outcome) => {
+    try {
+      setSubmitting(outcome)
+      setSubmitError(null)
+      const response = await completeFakePayment(sessionId, outcome)
+      if (response.payload.continue_url) {
+        followPaymentRedirect(response.payload.continue_url, navigate)
+      }
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : 'The payment could not be processed')
+      setSubmitting(null)
+    }
+  }
+
+  return (
+    <div className="fake-gateway">
+      <div className="fake-gateway-card">
+        <p className="fake-gateway-badge">Test payment page</p>
+        <h1>Fake Card Gateway</h1>
+
+        {loading && <p className="fake-gateway-status">Loading payment...</p>}
+
+        {!loading && error && (
+          <div className="fake-gateway-error">
+            <p>{error}</p>
+            {sessionId && <button type="button" onClick={retry}>Retry</button>}
+          </div>
+        )}
+
+        {session && (
+          <>
+            <dl className="fake-gateway-details">
+              <dt>Amount</dt>
+              <dd>{formatPrice(session.amount)} {session.currency_code}</dd>
+              <dt>Session</dt>
+              <dd>{session.session_id}</dd>
+            </dl>
+
+            {session.status !== 'open' ? (
+              <p className="fake-gateway-status">This payment is already {session.status}.</p>
+            ) : (
+              <>
+                {submitError && <div className="fake-gateway-error"><p>{submitError}</p></div>}
+                <div className="fake-gateway-actions">
+                  <button
+                    type="button"
+                    className="fake-gateway-pay"
+                    disabled={submitting !== null}
+                    onClick={() => finish('paid')}
+                  >
+                    {submitting === 'paid' ? 'Paying...' : `Pay ${formatPrice(session.amount)}`}
+                  </button>
+                  <button type="button" disabled={submitting !== null} onClick={() => finish('failed')}>
+                    Decline card
+                  </button>
+                  <button type="button" disabled={submitting !== null} onClick={() => finish('cancelled')}>
+                    Cancel and return to store
+                  </button>
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default FakePaymentGateway
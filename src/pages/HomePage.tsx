@@ -1,80 +1,187 @@
-import { useState, useEffect } from 'react'
-import { useNavigate } from 'react-router-dom'
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react'
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom'
 import '../App.css'
-import { fetchProducts, getProductImageUrl } from '../services/api'
+import { fetchProducts, getCachedProducts, getProductImageUrl, PRODUCTS_PER_PAGE } from '../services/api'
+import { isAbortError } from '../services/errors'
 import type { Product, ProductsResponse } from '../types/product'
-import ProductDetailModal from '../components/ProductDetailModal'
+import CatalogFilters from '../components/CatalogFilters'
+import {
+  filterProducts,
+  getCatalogFacets,
+  isCatalogQueryActive,
+  parseCatalogQuery,
+  sortProducts,
+  toCatalogSearchParams,
+  type CatalogQuery,
+} from '../utils/catalogQuery'
+import { useMoney } from '../hooks/useMoney'
+import { useCart } from '../hooks/useCart'
 
-// Shared promise to prevent duplicate calls in StrictMode
-let productsPromise: Promise<ProductsResponse> | null = null
+type Pagination = ProductsResponse['payload']['pagination']
+
+// Append a page to the loaded products, skipping ones already shown
+const mergeProductPages = (existing: Product[], incoming: Product[]): Product[] => {
+  const seen = new Set(existing.map(product => product.product_id))
+  return [...existing, ...incoming.filter(product => !seen.has(product.product_id))]
+}
 
 function HomePage() {
+  const { formatPrice, setCurrency } = useMoney()
+  const { itemCount } = useCart()
   const navigate = useNavigate()
+  const location = useLocation()
+  const [searchParams, setSearchParams] = useSearchParams()
   const [products, setProducts] = useState<Product[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [currency, setCurrency] = useState<string>('USD')
-  const [selectedVariantId, setSelectedVariantId] = useState<string | null>(null)
-  const [isModalOpen, setIsModalOpen] = useState(false)
+  const [pagination, setPagination] = useState<Pagination | null>(null)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [loadMoreError, setLoadMoreError] = useState<string | null>(null)
+  // When the store can't be reached: when the saved catalog being shown was fetched
+  const [offlineSince, setOfflineSince] = useState<number | null>(null)
+  const loadingMoreRef = useRef(false)
+  const loadMoreSentinelRef = useRef<HTMLDivElement | null>(null)
 
   useEffect(() => {
-    let isMounted = true
+    const controller = new AbortController()
 
     const loadProducts = async () => {
+      // Stale-while-revalidate: paint the saved catalog first, then refresh it from the store
+      const cached = await getCachedProducts(1, PRODUCTS_PER_PAGE)
+      if (controller.signal.aborted) return
+
+      if (cached) {
+        setProducts(cached.response.payload.products)
+        setCurrency(cached.response.payload.currency)
+        setPagination(cached.response.payload.pagination || null)
+        setLoading(false)
+      }
+
       try {
-        setLoading(true)
-        
-        // Reuse existing promise if available (prevents duplicate calls)
-        if (!productsPromise) {
-          productsPromise = fetchProducts()
-        }
-        
-        const response = await productsPromise
-        
-        // Only update state if component is still mounted
-        if (isMounted) {
-          setProducts(response.payload.products)
-          setCurrency(response.payload.currency.code)
-        }
+        // Concurrent and StrictMode-duplicated loads share one request inside fetchProducts
+        const response = await fetchProducts(1, PRODUCTS_PER_PAGE, { signal: controller.signal })
+
+        // Replace the saved first page so products removed from the store disappear, keeping
+        // any later pages loaded meanwhile (scrolling, or filtering over the whole catalog)
+        const cachedFirstPage = cached?.response.payload.products.length ?? 0
+        setProducts(prev => mergeProductPages(response.payload.products, prev.slice(cachedFirstPage)))
+        setCurrency(response.payload.currency)
+        setPagination(prev => prev && prev.current_page > 1 ? prev : response.payload.pagination || null)
+        setOfflineSince(null)
+        setLoading(false)
       } catch (err) {
-        if (isMounted) {
-          setError(err instanceof Error ? err.message : 'Failed to load products')
-        }
-        // Reset promise on error so it can be retried
-        productsPromise = null
-      } finally {
-        if (isMounted) {
-          setLoading(false)
+        // Unmounted before the products arrived
+        if (isAbortError(err)) return
+
+        if (cached) {
+          console.error('Failed to refresh products, showing saved catalog:', err)
+          setOfflineSince(cached.storedAt)
+          return
         }
-        // Reset promise after a short delay to allow for StrictMode remount
-        setTimeout(() => {
-          productsPromise = null
-        }, 100)
+
+        setError(err instanceof Error ? err.message : 'Failed to load products')
+        setLoading(false)
       }
     }
 
     loadProducts()
 
-    // Cleanup function
     return () => {
-      isMounted = false
+      controller.abort()
+    }
+  }, [setCurrency])
+
+  const hasMorePages = !!pagination?.has_more_page
+
+  const loadNextPage = useCallback(async () => {
+    if (!pagination?.has_more_page || loadingMoreRef.current) {
+      return
+    }
+
+    loadingMoreRef.current = true
+    setLoadingMore(true)
+    setLoadMoreError(null)
+
+    const nextPage = pagination.current_page + 1
+    try {
+      const response = await fetchProducts(nextPage)
+      setProducts(prev => mergeProductPages(prev, response.payload.products))
+      setPagination(response.payload.pagination || null)
+    } catch (err) {
+      // Keep scrolling through the saved catalog while the store is unreachable
+      const cached = await getCachedProducts(nextPage)
+      if (cached) {
+        setProducts(prev => mergeProductPages(prev, cached.response.payload.products))
+        setPagination(cached.response.payload.pagination || null)
+        setOfflineSince(prev => prev === null ? cached.storedAt : Math.min(prev, cached.storedAt))
+      } else {
+        setLoadMoreError(err instanceof Error ? err.message : 'Failed to load more products')
+      }
+    } finally {
+      loadingMoreRef.current = false
+      setLoadingMore(false)
+    }
+  }, [pagination])
+
+  // Infinite scroll: load the next page as the end of the grid comes into view.
+  // After a failure we stop observing and leave retrying to the "Load more" button.
+  useEffect(() => {
+    const sentinel = loadMoreSentinelRef.current
+    if (!sentinel || !hasMorePages || loadMoreError || typeof IntersectionObserver === 'undefined') {
+      return
+    }
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        loadNextPage()
+      }
+    }, { rootMargin: '400px' })
+
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [hasMorePages, loadMoreError, loadNextPage])
+
+  const query = useMemo(() => parseCatalogQuery(searchParams), [searchParams])
+  // Filters and sorting run over the loaded products, so they need the whole catalog
+  const needsWholeCatalog = isCatalogQueryActive(query) || query.sort !== 'featured'
+
+  // Keep loading pages while that's the case; each page changes loadNextPage, which runs
+  // this again until the last one is in. A failure leaves the rest to the "Load more" button.
+  useEffect(() => {
+    if (needsWholeCatalog && hasMorePages && !loadMoreError) {
+      loadNextPage()
     }
-  }, [])
+  }, [needsWholeCatalog, hasMorePages, loadMoreError, loadNextPage])
+
+  const facets = useMemo(() => getCatalogFacets(products), [products])
+  const visibleProducts = useMemo(
+    () => sortProducts(filterProducts(products, query), query.sort),
+    [products, query]
+  )
 
-  const formatPrice = (price: number): string => {
-    return new Intl.NumberFormat('vi-VN').format(price)
+  const handleQueryChange = (nextQuery: CatalogQuery) => {
+    // Typing in the search box or a price field shouldn't flood the history with one entry
+    // per keystroke
+    const typed = nextQuery.search !== query.search
+      || nextQuery.minPrice !== query.minPrice
+      || nextQuery.maxPrice !== query.maxPrice
+    setSearchParams(toCatalogSearchParams(nextQuery), { replace: typed })
   }
 
   const handleProductClick = (product: Product) => {
-    const variantId = product.variants && product.variants.length > 0 
-      ? product.variants[0].variant_id 
-      : product.product_id
-    setSelectedVariantId(variantId)
-    setIsModalOpen(true)
-  }
+    if (!product.handle) {
+      // Without a handle the product can only be opened by id as a full page
+      const variantId = product.variants && product.variants.length > 0 
+        ? product.variants[0].variant_id 
+        : product.product_id
+      navigate(`/product/variant/${variantId}`)
+      return
+    }
 
-  const handleCloseModal = () => {
-    setIsModalOpen(false)
+    // Open as a modal over the catalog while still giving the product its own URL
+    navigate(`/product/${encodeURIComponent(product.handle)}`, {
+      state: { backgroundLocation: location },
+    })
   }
 
   if (loading) {
@@ -101,17 +208,43 @@ function HomePage() {
         <button 
           className="cart-icon-btn"
           onClick={() => navigate('/cart')}
-          aria-label="Open cart"
+          aria-label={itemCount > 0 ? `Open cart (${itemCount} items)` : 'Open cart'}
         >
           🛒
+          {itemCount > 0 && (
+            <span className="cart-badge">{itemCount > 99 ? '99+' : itemCount}</span>
+          )}
         </button>
       </header>
 
+      {offlineSince !== null && (
+        <div className="offline-notice" role="status">
+          Can't reach the store right now. Showing products saved {new Date(offlineSince).toLocaleString()}.
+        </div>
+      )}
+
+      {products.length > 0 && (
+        <CatalogFilters
+          query={query}
+          facets={facets}
+          resultCount={visibleProducts.length}
+          totalCount={products.length}
+          partial={hasMorePages}
+          onChange={handleQueryChange}
+        />
+      )}
+
       {products.length === 0 ? (
         <div className="empty-state">No products available</div>
+      ) : visibleProducts.length === 0 ? (
+        <div className="empty-state">
+          {hasMorePages && !loadMoreError
+            ? 'Searching the rest of the catalog...'
+            : 'No products match your search and filters'}
+        </div>
       ) : (
         <div className="products-grid">
-          {products.map((product) => {
+          {visibleProducts.map((product) => {
             const featuredImage = product.images.find(img => img.is_featured) || product.images[0]
             const imageUrl = featuredImage 
               ? getProductImageUrl(featuredImage.url)
@@ -141,11 +274,11 @@ function HomePage() {
                   <div className="product-price">
                     {product.label_price > product.selling_price && (
                       <span className="original-price">
-                        {formatPrice(product.label_price)} {currency}
+                        {formatPrice(product.label_price)}
                       </span>
                     )}
                     <span className="current-price">
-                      {formatPrice(product.selling_price)} {currency}
+                      {formatPrice(product.selling_price)}
                     </span>
                   </div>
                   <button
@@ -161,11 +294,20 @@ function HomePage() {
         </div>
       )}
 
-      <ProductDetailModal
-        variantId={selectedVariantId}
-        isOpen={isModalOpen}
-        onClose={handleCloseModal}
-      />
+      {hasMorePages && (
+        <div className="load-more-section" ref={loadMoreSentinelRef}>
+          {loadMoreError && (
+            <div className="error">{loadMoreError}</div>
+          )}
+          <button
+            className="load-more-btn"
+            onClick={loadNextPage}
+            disabled={loadingMore}
+          >
+            {loadingMore ? 'Loading...' : loadMoreError ? 'Try again' : 'Load more products'}
+          </button>
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,245 @@
+import { useState, useEffect } from 'react'
+import { Link, useLocation, useParams, useSearchParams } from 'react-router-dom'
+import { fetchOrder, type Country, type PaymentMode } from '../services/api'
+import { isAbortError } from '../services/errors'
+import type { Order, OrderAddress, PaymentReference } from '../types/order'
+import countriesData from '../data/countries.json'
+import { useMoney } from '../hooks/useMoney'
+import { findPaymentMode } from '../utils/checkoutProgress'
+import './OrderConfirmation.css'
+
+const countries: Country[] = countriesData.countries || []
+
+function AddressBlock({ title, address }: { title: string; address: OrderAddress }) {
+  const country = countries.find(entry => entry.code === address.country)
+  const state = country?.states.find(entry => entry.code === address.state)
+
+  return (
+    <div className="receipt-address">
+      <h3>{title}</h3>
+      <p><strong>{address.first_name} {address.last_name}</strong></p>
+      <p>{address.address}</p>
+      {address.street2 && <p>{address.street2}</p>}
+      <p>{address.city}, {state?.name || address.state} {address.postal_code}</p>
+      <p>{country?.name || address.country}</p>
+      {address.telephone && <p>{address.telephone}</p>}
+      {address.email_address && <p>{address.email_address}</p>}
+    </div>
+  )
+}
+
+// Bank details for an offline payment; the reference ties the transfer to the order
+function PaymentDetails({ details, total }: { details: PaymentReference; total: string }) {
+  return (
+    <section className="receipt-section receipt-payment">
+      <h2>Payment Details</h2>
+      <dl>
+        <dt>Amount</dt>
+        <dd>{total}</dd>
+        {details.reference && (
+          <>
+            <dt>Reference</dt>
+            <dd>{details.reference}</dd>
+          </>
+        )}
+        {details.account_name && (
+          <>
+            <dt>Account name</dt>
+            <dd>{details.account_name}</dd>
+          </>
+        )}
+        {details.bank_name && (
+          <>
+            <dt>Bank</dt>
+            <dd>{details.bank_name}</dd>
+          </>
+        )}
+        {details.account_number && (
+          <>
+            <dt>Account number</dt>
+            <dd>{details.account_number}</dd>
+          </>
+        )}
+        {details.iban && (
+          <>
+            <dt>IBAN</dt>
+            <dd>{details.iban}</dd>
+          </>
+        )}
+        {details.bic && (
+          <>
+            <dt>BIC / SWIFT</dt>
+            <dd>{details.bic}</dd>
+          </>
+        )}
+      </dl>
+      {details.instructions && <p>{details.instructions}</p>}
+    </section>
+  )
+}
+
+interface OrderResult {
+  orderId: string
+  order: Order | null
+  error: string | null
+}
+
+function OrderConfirmation() {
+  const { formatPrice } = useMoney()
+  const { orderId = '' } = useParams()
+  const [searchParams] = useSearchParams()
+  const orderToken = searchParams.get('token') || ''
+  const location = useLocation()
+  // Checkout hands over the confirm-checkout order and the store's payment modes; reloads
+  // keep them, shared links fetch the order again
+  const passed = location.state as { order?: Order; paymentModes?: PaymentMode[] } | null
+  const passedOrder = passed?.order
+  const initialOrder = passedOrder?.salesorder_id === orderId ? passedOrder : null
+
+  const [result, setResult] = useState<OrderResult | null>(
+    initialOrder ? { orderId, order: initialOrder, error: null } : null
+  )
+  // Ignore a result that belongs to the previously viewed order
+  const current = result?.orderId === orderId ? result : null
+  // Without the token the proxy won't look the order up, so there is nothing to ask for
+  const needsFetch = !current && !!orderToken
+
+  useEffect(() => {
+    if (!needsFetch) return
+
+    const controller = new AbortController()
+    fetchOrder(orderId, orderToken, { signal: controller.signal })
+      .then(order => setResult({ orderId, order, error: null }))
+      .catch((err) => {
+        if (isAbortError(err)) return
+        console.error('Failed to load order:', err)
+        setResult({ orderId, order: null, error: err instanceof Error ? err.message : 'Failed to load order' })
+      })
+
+    return () => controller.abort()
+  }, [orderId, orderToken, needsFetch])
+
+  if (!current && !orderToken) {
+    return (
+      <div className="receipt-container">
+        <div className="receipt-error">
+          <p>We couldn't find this order. The link may be incomplete or no longer valid.</p>
+        </div>
+        <Link to="/" className="receipt-link">← Back to Home</Link>
+      </div>
+    )
+  }
+
+  if (!current) {
+    return (
+      <div className="receipt-container">
+        <p className="receipt-status">Loading your order...</p>
+      </div>
+    )
+  }
+
+  const { order, error } = current
+  if (!order) {
+    return (
+      <div className="receipt-container">
+        <div className="receipt-error">
+          <p>{error || 'Order not found'}</p>
+          <button onClick={() => setResult(null)} className="receipt-retry-btn">
+            Retry
+          </button>
+        </div>
+        <Link to="/" className="receipt-link">← Back to Home</Link>
+      </div>
+    )
+  }
+
+  const paymentMode = findPaymentMode(passed?.paymentModes ?? [], order.payment_mode)
+
+  return (
+    <div className="receipt-container">
+      <header className="receipt-header">
+        <h1>Thank you for your order!</h1>
+        <p className="receipt-number">
+          Order <strong>{order.salesorder_number || order.salesorder_id}</strong>
+          {order.date && <> • {new Date(order.date).toLocaleDateString()}</>}
+        </p>
+        {order.shipping_address?.email_address && (
+          <p className="receipt-note no-print">
+            A confirmation will be sent to {order.shipping_address.email_address}.
+          </p>
+        )}
+      </header>
+
+      <section className="receipt-section">
+        <h2>Items</h2>
+        <table className="receipt-items">
+          <thead>
+            <tr>
+              <th>Item</th>
+              <th>Qty</th>
+              <th>Price</th>
+              <th>Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {order.line_items.map((item, index) => (
+              <tr key={item.variant_id || index}>
+                <td>
+                  {item.name}
+                  {item.sku && <span className="receipt-sku">{item.sku}</span>}
+                </td>
+                <td>{item.quantity}</td>
+                <td>{formatPrice(item.price)}</td>
+                <td>{formatPrice(item.total)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <dl className="receipt-totals">
+          <dt>Subtotal</dt>
+          <dd>{formatPrice(order.sub_total)}</dd>
+          <dt>Shipping{order.shipping_method && ` (${order.shipping_method})`}</dt>
+          <dd>{formatPrice(order.shipping_charge)}</dd>
+          {order.discount > 0 && (
+            <>
+              <dt>Discount</dt>
+              <dd>−{formatPrice(order.discount)}</dd>
+            </>
+          )}
+          {order.tax_total > 0 && (
+            <>
+              <dt>Tax</dt>
+              <dd>{formatPrice(order.tax_total)}</dd>
+            </>
+          )}
+          <dt className="receipt-grand-total">Total</dt>
+          <dd className="receipt-grand-total">{formatPrice(order.total)}</dd>
+        </dl>
+      </section>
+
+      {order.payment_reference && (
+        <PaymentDetails details={order.payment_reference} total={formatPrice(order.total)} />
+      )}
+
+      <section className="receipt-section receipt-details">
+        {order.shipping_address && <AddressBlock title="Shipping Address" address={order.shipping_address} />}
+        {order.billing_address && <AddressBlock title="Billing Address" address={order.billing_address} />}
+        <div className="receipt-address">
+          <h3>Shipping &amp; Payment</h3>
+          <p>{order.shipping_method || 'No shipping required'}</p>
+          <p>{paymentMode ? paymentMode.label : order.payment_mode}</p>
+        </div>
+      </section>
+
+      <div className="receipt-actions no-print">
+        <button className="receipt-print-btn" onClick={() => window.print()}>
+          Print Receipt
+        </button>
+        <Link to="/" className="receipt-link">Continue Shopping</Link>
+      </div>
+    </div>
+  )
+}
+
+export default OrderConfirmation
@@ -0,0 +1,30 @@
+import { Link, useSearchParams } from 'react-router-dom'
+import './OrderConfirmation.css'
+
+// Confirmation for an order the store accepted without sending it back, so there is no
+// receipt to show. The checkout reference is what the store knows the order by until then.
+function OrderReceived() {
+  const [searchParams] = useSearchParams()
+  const reference = searchParams.get('reference')
+
+  return (
+    <div className="receipt-container">
+      <header className="receipt-header">
+        <h1>Thank you for your order!</h1>
+        <p className="receipt-number">
+          Your order has been received
+          {reference && <> • Checkout reference <strong>{reference}</strong></>}
+        </p>
+        <p className="receipt-note">
+          We'll email your order confirmation shortly. Quote the checkout reference if you contact us about this order.
+        </p>
+      </header>
+
+      <div className="receipt-actions">
+        <Link to="/" className="receipt-link">Continue Shopping</Link>
+      </div>
+    </div>
+  )
+}
+
+export default OrderReceived
@@ -0,0 +1,213 @@
+import { useState, useEffect } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { getCheckoutData, submitCheckoutAddress, type Address, type CheckoutAddress, type Country } from '../../services/api'
+import { isAbortError } from '../../services/errors'
+import countriesData from '../../data/countries.json'
+import { useCheckout } from '../../hooks/useCheckout'
+import {
+  hasAddressErrors,
+  normalizeAddress,
+  validateAddress,
+  type AddressErrors,
+} from '../../utils/addressValidation'
+import { EMPTY_ADDRESS } from '../../utils/checkoutProgress'
+import { matchesSavedAddress, prefillFromSavedAddresses, toCheckoutAddress } from '../../utils/savedAddresses'
+import AddressFields from '../../components/AddressFields'
+import SavedAddressPicker from '../../components/SavedAddressPicker'
+
+const countries: Country[] = countriesData.countries || []
+
+// Drop the errors for fields the customer has just changed
+const clearErrors = (errors: AddressErrors, updates: Partial<CheckoutAddress>): AddressErrors => {
+  return Object.fromEntries(Object.entries(errors).filter(([field]) => !(field in updates)))
+}
+
+function AddressStep() {
+  const navigate = useNavigate()
+  const { cartId, progress, updateProgress, completeStep } = useCheckout()
+  const { shippingAddress, billingAddress, sameBillingAddress } = progress
+  const [shippingErrors, setShippingErrors] = useState<AddressErrors>({})
+  const [billingErrors, setBillingErrors] = useState<AddressErrors>({})
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [savedAddresses, setSavedAddresses] = useState<Address[]>([])
+  const [loadingSaved, setLoadingSaved] = useState(true)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    getCheckoutData(cartId, { signal: controller.signal })
+      .then(response => {
+        const addresses = (response.payload?.checkout?.address_detail ?? response.address_detail)?.addresses || []
+        setSavedAddresses(addresses)
+        updateProgress(prev => prefillFromSavedAddresses(prev, addresses))
+        setLoadingSaved(false)
+      })
+      .catch((err) => {
+        if (isAbortError(err)) return
+        // Saved addresses are a convenience; the form still works without them
+        console.warn('Could not load saved addresses:', err)
+        setLoadingSaved(false)
+      })
+
+    return () => controller.abort()
+  }, [cartId, updateProgress])
+
+  // Any edit has to be submitted again before the later steps unlock
+  const handleShippingChange = (updates: Partial<CheckoutAddress>) => {
+    updateProgress({ shippingAddress: { ...shippingAddress, ...updates }, completedSteps: [] })
+    setShippingErrors(prev => clearErrors(prev, updates))
+  }
+
+  const handleBillingChange = (updates: Partial<CheckoutAddress>) => {
+    updateProgress({ billingAddress: { ...billingAddress, ...updates }, completedSteps: [] })
+    setBillingErrors(prev => clearErrors(prev, updates))
+  }
+
+  // Picking "new" only clears the form when it still holds a saved address
+  const selectSaved = (current: CheckoutAddress, address: Address | null): CheckoutAddress | null => {
+    if (address) return toCheckoutAddress(address, sameBillingAddress)
+    if (!savedAddresses.some(saved => matchesSavedAddress(current, saved, countries))) return null
+    return { ...EMPTY_ADDRESS, same_billing_address: sameBillingAddress }
+  }
+
+  const handleSelectShipping = (address: Address | null) => {
+    const next = selectSaved(shippingAddress, address)
+    if (!next) return
+    updateProgress({ shippingAddress: next, completedSteps: [] })
+    setShippingErrors({})
+  }
+
+  const handleSelectBilling = (address: Address | null) => {
+    const next = selectSaved(billingAddress, address)
+    if (!next) return
+    updateProgress({ billingAddress: next, completedSteps: [] })
+    setBillingErrors({})
+  }
+
+  const handleSameBillingAddressChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    updateProgress({ sameBillingAddress: e.target.checked, completedSteps: [] })
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const nextShippingErrors = validateAddress(shippingAddress, countries)
+    const nextBillingErrors = sameBillingAddress ? {} : validateAddress(billingAddress, countries)
+    setShippingErrors(nextShippingErrors)
+    setBillingErrors(nextBillingErrors)
+    if (hasAddressErrors(nextShippingErrors) || hasAddressErrors(nextBillingErrors)) {
+      setError('Please correct the highlighted fields.')
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      // Send (and keep) the canonical postal codes and E.164 phone numbers
+      const shipping = { ...normalizeAddress(shippingAddress, countries), same_billing_address: sameBillingAddress }
+      const billing = sameBillingAddress
+        ? shipping
+        : { ...normalizeAddress(billingAddress, countries), same_billing_address: false }
+      const response = await submitCheckoutAddress(cartId, {
+        shipping_address: shipping,
+        billing_address: billing,
+      })
+      const addresses = { shippingAddress: shipping, billingAddress: sameBillingAddress ? billingAddress : billing }
+
+      const shippingMethods = response.payload?.checkout_shipping_methods?.shipping_methods || []
+      if (shippingMethods.length === 0) {
+        // Nothing to choose (e.g. digital goods), so the shipping step counts as done
+        completeStep('shipping', { ...addresses, shippingMethods: [], shippingMethodId: '' })
+        navigate('/checkout/payment')
+        return
+      }
+
+      // Keep the earlier choice if the store still offers it
+      const selected = shippingMethods.find(method => method.id === progress.shippingMethodId)
+        || shippingMethods.find(method => method.is_default)
+        || shippingMethods[0]
+      completeStep('address', { ...addresses, shippingMethods, shippingMethodId: selected.id })
+      navigate('/checkout/shipping')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit address')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="checkout-form" noValidate>
+      {error && (
+        <div className="checkout-error">
+          {error}
+        </div>
+      )}
+
+      <div className="form-section">
+        <h2>Shipping Address</h2>
+        {loadingSaved && <p className="saved-addresses-status">Loading saved addresses...</p>}
+        {savedAddresses.length > 0 && (
+          <SavedAddressPicker
+            name="saved_shipping_address"
+            addresses={savedAddresses}
+            current={shippingAddress}
+            countries={countries}
+            onSelect={handleSelectShipping}
+          />
+        )}
+        <AddressFields
+          idPrefix="shipping"
+          address={shippingAddress}
+          countries={countries}
+          errors={shippingErrors}
+          onChange={handleShippingChange}
+        />
+      </div>
+
+      <div className="form-section">
+        <div className="checkbox-group">
+          <label>
+            <input
+              type="checkbox"
+              checked={sameBillingAddress}
+              onChange={handleSameBillingAddressChange}
+            />
+            <span>Billing address is the same as shipping address</span>
+          </label>
+        </div>
+      </div>
+
+      {!sameBillingAddress && (
+        <div className="form-section">
+          <h2>Billing Address</h2>
+          {savedAddresses.length > 0 && (
+            <SavedAddressPicker
+              name="saved_billing_address"
+              addresses={savedAddresses}
+              current={billingAddress}
+              countries={countries}
+              onSelect={handleSelectBilling}
+            />
+          )}
+          <AddressFields
+            idPrefix="billing"
+            address={billingAddress}
+            countries={countries}
+            errors={billingErrors}
+            phoneCountry={shippingAddress.country}
+            onChange={handleBillingChange}
+          />
+        </div>
+      )}
+
+      <div className="form-actions">
+        <button type="submit" className="submit-btn" disabled={loading}>
+          {loading ? 'Processing...' : 'Continue to Shipping'}
+        </button>
+      </div>
+    </form>
+  )
+}
+
+export default AddressStep
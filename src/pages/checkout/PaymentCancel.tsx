@@ -0,0 +1,36 @@
+import { Link, Navigate, useSearchParams } from 'react-router-dom'
+import { useCheckout } from '../../hooks/useCheckout'
+import { usePaymentSession } from '../../hooks/usePaymentSession'
+import { PAYMENT_RETURN_PATH } from '../../utils/paymentRedirect'
+
+// Where the payment provider sends the customer after backing out. Checked with the
+// provider anyway: a session that was paid after all continues on the return page.
+function PaymentCancel() {
+  const [searchParams] = useSearchParams()
+  const sessionId = searchParams.get('session_id') || ''
+  const { cartId } = useCheckout()
+  const { session, loading } = usePaymentSession(sessionId)
+
+  if (loading) {
+    return <p className="summary-status">Checking your payment...</p>
+  }
+
+  if (session?.status === 'paid' && session.checkout_id === cartId) {
+    return <Navigate to={`${PAYMENT_RETURN_PATH}?${new URLSearchParams({ session_id: sessionId })}`} replace />
+  }
+
+  return (
+    <div className="checkout-form">
+      <div className="form-section">
+        <h2>Payment cancelled</h2>
+        <p>You have not been charged and your order has not been placed. Your cart is still here.</p>
+        <div className="payment-result-actions">
+          <Link to="/checkout/review" className="submit-btn">Try Again</Link>
+          <Link to="/checkout/payment" className="edit-step-link">Choose another payment method</Link>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default PaymentCancel
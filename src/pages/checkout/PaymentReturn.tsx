@@ -0,0 +1,105 @@
+import { useState, useEffect, useRef } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import { confirmCheckout } from '../../services/api'
+import { useCheckout } from '../../hooks/useCheckout'
+import { useCompleteOrder } from '../../hooks/useCompleteOrder'
+import { usePaymentSession } from '../../hooks/usePaymentSession'
+
+const FAILED_MESSAGES: Record<string, string> = {
+  failed: 'Your card payment was declined. You have not been charged.',
+  cancelled: 'The card payment was cancelled. You have not been charged.',
+  open: 'The card payment has not been completed yet.',
+}
+
+// Where the payment provider sends the customer back. The order is only confirmed
+// once the provider says this checkout's session was paid.
+function PaymentReturn() {
+  const [searchParams] = useSearchParams()
+  const sessionId = searchParams.get('session_id') || ''
+  const { cartId, progress } = useCheckout()
+  const completeOrder = useCompleteOrder()
+  const { session, loading, error, retry } = usePaymentSession(sessionId)
+  const [attempt, setAttempt] = useState(0)
+  const [confirmError, setConfirmError] = useState<string | null>(null)
+  // confirm-checkout must not run twice for one attempt, e.g. when effects re-run in development
+  const confirmed = useRef<string | null>(null)
+
+  const wrongCheckout = session !== null && session.checkout_id !== cartId
+  const paid = session?.status === 'paid' && !wrongCheckout
+  const { shippingMethodId, paymentMode } = progress
+
+  useEffect(() => {
+    const key = `${sessionId}:${attempt}`
+    if (!paid || confirmed.current === key) return
+    confirmed.current = key
+
+    confirmCheckout(cartId, shippingMethodId || undefined, paymentMode, sessionId)
+      .then(response => completeOrder(response.payload))
+      .catch((err) => {
+        console.error('Failed to confirm paid order:', err)
+        setConfirmError(err instanceof Error ? err.message : 'Failed to place order')
+      })
+  }, [paid, sessionId, attempt, cartId, shippingMethodId, paymentMode, completeOrder])
+
+  const retryConfirm = () => {
+    setConfirmError(null)
+    setAttempt(value => value + 1)
+  }
+
+  if (loading) {
+    return <p className="summary-status">Checking your payment...</p>
+  }
+
+  if (error || wrongCheckout) {
+    return (
+      <div className="checkout-form">
+        <div className="checkout-error">
+          <p>{wrongCheckout ? 'This payment belongs to a different checkout.' : error}</p>
+          {!wrongCheckout && sessionId && (
+            <button type="button" className="summary-retry-btn" onClick={retry}>
+              Check again
+            </button>
+          )}
+        </div>
+        <Link to="/checkout/review" className="edit-step-link">← Back to review</Link>
+      </div>
+    )
+  }
+
+  if (paid) {
+    return (
+      <div className="checkout-form">
+        {confirmError ? (
+          <div className="checkout-error">
+            <p>Your payment went through, but the order could not be placed: {confirmError}</p>
+            <button type="button" className="summary-retry-btn" onClick={retryConfirm}>
+              Try again
+            </button>
+          </div>
+        ) : (
+          <p className="summary-status">Payment received. Placing your order...</p>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="checkout-form">
+      <div className="form-section">
+        <h2>Payment not completed</h2>
+        <p>{FAILED_MESSAGES[session?.status ?? 'open']}</p>
+        <div className="payment-result-actions">
+          {session?.status === 'open' && (
+            <button type="button" className="summary-retry-btn" onClick={retry}>
+              Check again
+            </button>
+          )}
+          <Link to="/checkout/review" className="submit-btn">Try Again</Link>
+          <Link to="/checkout/payment" className="edit-step-link">Choose another payment method</Link>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default PaymentReturn
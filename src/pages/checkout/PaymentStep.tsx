@@ -0,0 +1,107 @@
+import { useState, useEffect } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { getCheckoutData } from '../../services/api'
+import { isAbortError } from '../../services/errors'
+import { useCheckout } from '../../hooks/useCheckout'
+import { PAYMENT_MODES, stepsThrough } from '../../utils/checkoutProgress'
+
+function PaymentStep() {
+  const navigate = useNavigate()
+  const { cartId, progress, updateProgress, completeStep } = useCheckout()
+  const [error, setError] = useState<string | null>(null)
+  const [loadingModes, setLoadingModes] = useState(true)
+  const { paymentModes } = progress
+
+  useEffect(() => {
+    const controller = new AbortController()
+    getCheckoutData(cartId, { signal: controller.signal })
+      .then(response => {
+        const listed = response.payload?.checkout?.payment_modes
+        const modes = listed?.length ? listed : PAYMENT_MODES
+        // A mode the store no longer offers has to be chosen again
+        updateProgress(prev => (!prev.paymentMode || modes.some(mode => mode.id === prev.paymentMode)
+          ? { paymentModes: modes }
+          : { paymentModes: modes, paymentMode: '', completedSteps: stepsThrough('shipping') }))
+        setLoadingModes(false)
+      })
+      .catch((err) => {
+        if (isAbortError(err)) return
+        // Keep what the store offered last time, or fall back to the defaults
+        console.warn('Could not load payment modes:', err)
+        updateProgress(prev => (prev.paymentModes.length > 0 ? {} : { paymentModes: PAYMENT_MODES }))
+        setLoadingModes(false)
+      })
+
+    return () => controller.abort()
+  }, [cartId, updateProgress])
+
+  const selectMode = (modeId: string) => {
+    updateProgress({ paymentMode: modeId, completedSteps: stepsThrough('shipping') })
+    setError(null)
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!paymentModes.some(mode => mode.id === progress.paymentMode)) {
+      setError('Please select a payment method')
+      return
+    }
+
+    completeStep('payment')
+    navigate('/checkout/review')
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="checkout-form" noValidate>
+      {error && (
+        <div className="checkout-error">
+          {error}
+        </div>
+      )}
+
+      <div className="form-section">
+        <h2>Payment Method</h2>
+        {loadingModes && paymentModes.length === 0 ? (
+          <p className="summary-status">Loading payment methods...</p>
+        ) : (
+          <div className="shipping-methods">
+            {paymentModes.map((mode) => (
+              <div
+                key={mode.id}
+                className={`shipping-method-card ${progress.paymentMode === mode.id ? 'selected' : ''}`}
+                onClick={() => selectMode(mode.id)}
+              >
+                <div className="shipping-method-radio">
+                  <input
+                    type="radio"
+                    id={`payment_${mode.id}`}
+                    name="payment_mode"
+                    value={mode.id}
+                    checked={progress.paymentMode === mode.id}
+                    onChange={() => selectMode(mode.id)}
+                  />
+                  <label htmlFor={`payment_${mode.id}`}>
+                    <div className="shipping-method-name">{mode.label}</div>
+                    {mode.description && <div className="shipping-method-details">{mode.description}</div>}
+                    {progress.paymentMode === mode.id && mode.instructions && (
+                      <p className="payment-instructions">{mode.instructions}</p>
+                    )}
+                  </label>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="form-actions">
+        <button type="submit" className="submit-btn" disabled={loadingModes && paymentModes.length === 0}>
+          Review Order
+        </button>
+      </div>
+    </form>
+  )
+}
+
+export default PaymentStep
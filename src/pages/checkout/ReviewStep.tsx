@@ -0,0 +1,251 @@
+import { useState } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import {
+  confirmCheckout,
+  createPaymentSession,
+  processOfflinePayment,
+  type CheckoutAddress,
+  type CheckoutOrder,
+  type Country,
+} from '../../services/api'
+import type { CartItem } from '../../types/cart'
+import countriesData from '../../data/countries.json'
+import { useCart } from '../../hooks/useCart'
+import { useCheckout } from '../../hooks/useCheckout'
+import { useCheckoutSummary } from '../../hooks/useCheckoutSummary'
+import { useCompleteOrder } from '../../hooks/useCompleteOrder'
+import { useMoney } from '../../hooks/useMoney'
+import CouponForm from '../../components/CouponForm'
+import { findPaymentMode } from '../../utils/checkoutProgress'
+import { PAYMENT_CANCEL_PATH, PAYMENT_RETURN_PATH, followPaymentRedirect } from '../../utils/paymentRedirect'
+
+const countries: Country[] = countriesData.countries || []
+
+function AddressSummary({ address }: { address: CheckoutAddress }) {
+  const country = countries.find(entry => entry.code === address.country)
+  const state = country?.states.find(entry => entry.code === address.state)
+
+  return (
+    <div className="confirmation-address">
+      <p><strong>{address.first_name} {address.last_name}</strong></p>
+      <p>{address.address}</p>
+      {address.street2 && <p>{address.street2}</p>}
+      <p>{address.city}, {state?.name || address.state} {address.postal_code}</p>
+      <p>{country?.name || address.country}</p>
+      <p>{address.email_address} • {address.telephone}</p>
+    </div>
+  )
+}
+
+// Amounts are compared to the cent; anything smaller is rounding
+const differs = (a: number, b: number) => Math.abs(a - b) >= 0.005
+
+// Where the store's summary disagrees with the cart page, as messages for the customer
+const describeCartDifferences = (
+  order: CheckoutOrder,
+  subTotal: number,
+  items: CartItem[],
+  cartTotal: number,
+  formatPrice: (amount: number) => string
+): string[] => {
+  const differences: string[] = []
+
+  for (const line of order.line_items || []) {
+    const cartItem = items.find(item => item.variant_id === line.variant_id)
+    if (!cartItem) {
+      differences.push(`${line.name} is in the order but not in your cart.`)
+    } else if (cartItem.quantity !== line.quantity) {
+      differences.push(`${line.name}: quantity is ${line.quantity} here but ${cartItem.quantity} in your cart.`)
+    } else if (differs(cartItem.price, line.price)) {
+      differences.push(`${line.name}: price is now ${formatPrice(line.price)} (was ${formatPrice(cartItem.price)}).`)
+    }
+  }
+  for (const item of items) {
+    if (order.line_items && !order.line_items.some(line => line.variant_id === item.variant_id)) {
+      differences.push(`${item.name} is in your cart but not in the order.`)
+    }
+  }
+
+  if (differences.length === 0 && differs(subTotal, cartTotal)) {
+    differences.push(`The subtotal is ${formatPrice(subTotal)} here but ${formatPrice(cartTotal)} in your cart.`)
+  }
+  return differences
+}
+
+function ReviewStep() {
+  const { formatPrice } = useMoney()
+  const navigate = useNavigate()
+  const { items, totalPrice, coupon, refreshCart } = useCart()
+  const { cartId, progress } = useCheckout()
+  const completeOrder = useCompleteOrder()
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Re-price whenever something the store's totals depend on changes
+  const revision = JSON.stringify([
+    progress.shippingAddress,
+    progress.sameBillingAddress ? null : progress.billingAddress,
+    progress.shippingMethodId,
+    items.map(item => [item.variant_id, item.quantity]),
+    coupon?.code,
+  ])
+  const summary = useCheckoutSummary(cartId, revision)
+  const order = summary.order
+
+  const shippingMethod = order?.shipping
+    ?? progress.shippingMethods.find(method => method.id === progress.shippingMethodId)
+  const paymentMode = findPaymentMode(progress.paymentModes, progress.paymentMode)
+
+  // Every summary line comes from the store's order, so the lines add up to the total it
+  // charges; the methods saved on the shipping step may be priced differently by now
+  const lineItems = order?.line_items ?? items
+  const subTotal = order?.sub_total ?? lineItems.reduce((sum, item) => sum + item.price * item.quantity, 0)
+  const shippingCharge = order?.shipping_charge ?? 0
+  const handlingFees = Math.min(order?.shipping?.handling_fees ?? 0, shippingCharge)
+  const taxTotal = order?.tax_total ?? 0
+  const discount = order?.discount ?? 0
+  const total = order?.total ?? subTotal + shippingCharge + taxTotal - discount
+  const differences = order ? describeCartDifferences(order, subTotal, items, totalPrice, formatPrice) : []
+
+  const handlePlaceOrder = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      // Card payments happen on the provider's page; the return route confirms the order
+      if (paymentMode?.hosted) {
+        const session = await createPaymentSession(
+          cartId,
+          progress.paymentMode,
+          `${window.location.origin}${PAYMENT_RETURN_PATH}`,
+          `${window.location.origin}${PAYMENT_CANCEL_PATH}`
+        )
+        followPaymentRedirect(session.redirect_url, navigate)
+        return
+      }
+
+      // Offline payments go through place-order (the shipping step already saved the method);
+      // everything else confirms shipping method and payment mode in one call
+      const response = paymentMode?.offline
+        ? await processOfflinePayment(cartId, progress.paymentMode)
+        : await confirmCheckout(cartId, progress.shippingMethodId || undefined, progress.paymentMode)
+      completeOrder(response.payload)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to place order')
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="checkout-form">
+      {error && (
+        <div className="checkout-error">
+          {error}
+        </div>
+      )}
+
+      <div className="form-section">
+        <h2>Shipping Address <Link to="/checkout/address" className="edit-step-link">Edit</Link></h2>
+        <AddressSummary address={progress.shippingAddress} />
+        {!progress.sameBillingAddress && (
+          <>
+            <h2>Billing Address <Link to="/checkout/address" className="edit-step-link">Edit</Link></h2>
+            <AddressSummary address={progress.billingAddress} />
+          </>
+        )}
+      </div>
+
+      <div className="form-section">
+        <h2>Shipping &amp; Payment <Link to="/checkout/shipping" className="edit-step-link">Edit</Link></h2>
+        <div className="confirmation-shipping">
+          <p>
+            <strong>{shippingMethod ? shippingMethod.name : 'No shipping required'}</strong>
+            {shippingMethod?.delivery_time && ` • ${shippingMethod.delivery_time}`}
+          </p>
+          <p>Payment: {paymentMode ? paymentMode.label : progress.paymentMode}</p>
+          {paymentMode?.instructions && <p className="payment-instructions">{paymentMode.instructions}</p>}
+        </div>
+      </div>
+
+      <div className="form-section">
+        <h2>Order Summary</h2>
+        <CouponForm />
+        {summary.loading && <p className="summary-status">Getting the latest totals from the store...</p>}
+
+        {summary.error && (
+          <div className="checkout-error">
+            <p>{summary.error}</p>
+            <button type="button" className="summary-retry-btn" onClick={summary.retry}>
+              Retry
+            </button>
+          </div>
+        )}
+
+        {order && (
+          <>
+            {differences.length > 0 && (
+              <div className="checkout-warning" role="alert">
+                <p><strong>These totals differ from your cart.</strong> The amounts below are what the store will charge.</p>
+                <ul>
+                  {differences.map(difference => <li key={difference}>{difference}</li>)}
+                </ul>
+                <button type="button" className="summary-retry-btn" onClick={() => refreshCart()}>
+                  Update cart
+                </button>
+              </div>
+            )}
+
+            <div className="order-summary">
+              {lineItems.map((item) => (
+                <div key={item.variant_id} className="order-line">
+                  <span>{item.name} × {item.quantity}</span>
+                  <span>{formatPrice(item.price * item.quantity)}</span>
+                </div>
+              ))}
+              <div className="order-line order-line-subtotal">
+                <span>Subtotal</span>
+                <span>{formatPrice(subTotal)}</span>
+              </div>
+              <div className="order-line">
+                <span>Shipping{order.shipping && ` (${order.shipping.name})`}</span>
+                <span>{formatPrice(shippingCharge - handlingFees)}</span>
+              </div>
+              {handlingFees > 0 && (
+                <div className="order-line">
+                  <span>Handling fees</span>
+                  <span>{formatPrice(handlingFees)}</span>
+                </div>
+              )}
+              {taxTotal > 0 && (
+                <div className="order-line">
+                  <span>Taxes</span>
+                  <span>{formatPrice(taxTotal)}</span>
+                </div>
+              )}
+              {discount > 0 && (
+                <div className="order-line order-line-discount">
+                  <span>Discount{coupon && ` (${coupon.code})`}</span>
+                  <span>−{formatPrice(discount)}</span>
+                </div>
+              )}
+            </div>
+            <div className="order-total">
+              <span>Total</span>
+              <span className="total-amount">{formatPrice(total)}</span>
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="form-actions">
+        <button type="button" className="submit-btn" onClick={handlePlaceOrder} disabled={loading || !order}>
+          {paymentMode?.hosted
+            ? (loading ? 'Opening Payment Page...' : 'Continue to Payment')
+            : (loading ? 'Placing Order...' : 'Place Order')}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default ReviewStep
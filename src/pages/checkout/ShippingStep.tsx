@@ -0,0 +1,106 @@
+import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { submitShippingMethod } from '../../services/api'
+import { useCheckout } from '../../hooks/useCheckout'
+import { useMoney } from '../../hooks/useMoney'
+import { stepsThrough } from '../../utils/checkoutProgress'
+
+function ShippingStep() {
+  const { formatPrice } = useMoney()
+  const navigate = useNavigate()
+  const { cartId, progress, updateProgress, completeStep } = useCheckout()
+  const { shippingMethods, shippingMethodId } = progress
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const selectMethod = (methodId: string) => {
+    // A different method changes the totals, so payment and review need confirming again
+    updateProgress({ shippingMethodId: methodId, completedSteps: stepsThrough('address') })
+    setError(null)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (shippingMethods.length === 0) {
+      completeStep('shipping')
+      navigate('/checkout/payment')
+      return
+    }
+
+    if (!shippingMethods.some(method => method.id === shippingMethodId)) {
+      setError('Please select a shipping method')
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+      await submitShippingMethod(cartId, shippingMethodId)
+      completeStep('shipping')
+      navigate('/checkout/payment')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save shipping method')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="checkout-form" noValidate>
+      {error && (
+        <div className="checkout-error">
+          {error}
+        </div>
+      )}
+
+      <div className="form-section">
+        <h2>Select Shipping Method</h2>
+        {shippingMethods.length === 0 ? (
+          <p>No shipping is needed for this order.</p>
+        ) : (
+          <div className="shipping-methods">
+            {shippingMethods.map((method) => (
+              <div
+                key={method.id}
+                className={`shipping-method-card ${shippingMethodId === method.id ? 'selected' : ''}`}
+                onClick={() => selectMethod(method.id)}
+              >
+                <div className="shipping-method-radio">
+                  <input
+                    type="radio"
+                    id={`shipping_${method.id}`}
+                    name="shipping_method"
+                    value={method.id}
+                    checked={shippingMethodId === method.id}
+                    onChange={() => selectMethod(method.id)}
+                  />
+                  <label htmlFor={`shipping_${method.id}`}>
+                    <div className="shipping-method-name">{method.name}</div>
+                    <div className="shipping-method-details">
+                      <span className="shipping-method-rate">{formatPrice(method.rate)}</span>
+                      {method.delivery_time && (
+                        <span className="shipping-method-time">• {method.delivery_time}</span>
+                      )}
+                      {method.handling_fees > 0 && (
+                        <span className="shipping-method-fees">• Handling: {formatPrice(method.handling_fees)}</span>
+                      )}
+                    </div>
+                  </label>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="form-actions">
+        <button type="submit" className="submit-btn" disabled={loading}>
+          {loading ? 'Processing...' : 'Continue to Payment'}
+        </button>
+      </div>
+    </form>
+  )
+}
+
+export default ShippingStep
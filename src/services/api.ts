@@ -1,70 +1,152 @@
-import type { ProductsResponse, Product } from '../types/product';
+import type { ProductsResponse, Product, StoreCurrency } from '../types/product';
+import type { AppliedCoupon, CartItem } from '../types/cart';
+import type { Order } from '../types/order';
 import { getCartId, setCartId, deleteCartId } from '../utils/cookies';
+import { shareRequest, type WebhookCallOptions } from './webhook';
+import { callBackend } from './backends';
+import { WebhookBusinessError, WebhookHttpError, isAbortError } from './errors';
+import { readCache, writeCache } from './persistentCache';
 
 const DOMAIN_NAME = import.meta.env.VITE_DOMAIN_NAME 
-// Use proxy path to hide webhook URL (works in both dev and production via Vercel)
-const WEBHOOK_URL = '/webhook' 
 
 // Cache for product details to prevent multiple API calls
 const productCache = new Map<string, { product: Product; timestamp: number }>();
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
+// Persisted product pages are shown while revalidating for up to a week, then dropped
+const PERSISTED_PRODUCTS_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+
 // Cache for all products from fetchProducts to avoid calling get-product-detail
 let productsListCache: { products: Product[]; timestamp: number } | null = null;
 
-export const fetchProducts = async (): Promise<ProductsResponse> => {
-  const url = `${WEBHOOK_URL}?function=get-products`;
-  
-  try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      mode: 'cors',
-    });
+export const PRODUCTS_PER_PAGE = 24;
 
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => response.statusText);
-      throw new Error(`Failed to fetch products: ${response.status} ${errorText}`);
-    }
+// Store currency from the most recent products response
+let storeCurrency: StoreCurrency | null = null;
+
+
+// Add a page of products to the list cache, replacing products already seen by product_id
+const mergeIntoProductsListCache = (products: Product[], timestamp: number) => {
+  const current = productsListCache && Date.now() - productsListCache.timestamp < CACHE_DURATION
+    ? productsListCache
+    : null;
+  const merged = new Map((current?.products || []).map(product => [product.product_id, product]));
+  products.forEach(product => merged.set(product.product_id, product));
+  productsListCache = {
+    products: Array.from(merged.values()),
+    // The list is only as fresh as its oldest page
+    timestamp: current ? Math.min(current.timestamp, timestamp) : timestamp,
+  };
+};
 
-    const data: ProductsResponse = await response.json();
+// Fill the in-memory caches from a products page fetched (or persisted) at `timestamp`
+const cacheProductsResponse = (data: ProductsResponse, timestamp: number) => {
+  // Cache all products and their variants to avoid calling get-product-detail
+  if (data.payload && data.payload.products) {
+    const products = data.payload.products;
+    mergeIntoProductsListCache(products, timestamp);
     
-    // Cache all products and their variants to avoid calling get-product-detail
-    if (data.payload && data.payload.products) {
-      const products = data.payload.products;
-      productsListCache = {
-        products,
-        timestamp: Date.now()
-      };
+    // Cache each product by product_id
+    products.forEach(product => {
+      productCache.set(product.product_id, { product, timestamp });
       
-      // Cache each product by product_id
-      products.forEach(product => {
-        productCache.set(product.product_id, { product, timestamp: Date.now() });
-        
-        // Cache each variant by variant_id
-        if (product.variants && product.variants.length > 0) {
-          product.variants.forEach(variant => {
-            if (variant.variant_id) {
-              productCache.set(variant.variant_id, { product, timestamp: Date.now() });
-            }
-          });
-        }
-      });
-    }
-    
-    return data;
-  } catch (error) {
-    if (error instanceof TypeError && error.message.includes('Failed to fetch')) {
-      throw new Error('CORS error: Unable to fetch products. Please ensure CORS is enabled on the API.');
-    }
-    throw error;
+      // Cache each variant by variant_id
+      if (product.variants && product.variants.length > 0) {
+        product.variants.forEach(variant => {
+          if (variant.variant_id) {
+            productCache.set(variant.variant_id, { product, timestamp });
+          }
+        });
+      }
+    });
+  }
+};
+
+const productsCacheKey = (page: number, perPage: number) => `products:${page}:${perPage}`;
+
+const requestProducts = async (page: number, perPage: number): Promise<ProductsResponse> => {
+  const data = await callBackend('get-products', { page, per_page: perPage });
+
+  if (data.payload?.currency) {
+    storeCurrency = data.payload.currency;
+  }
+  cacheProductsResponse(data, Date.now());
+
+  // Persist in the background; a failed write only costs the next cold start
+  writeCache(productsCacheKey(page, perPage), data);
+  
+  return data;
+};
+
+export interface CachedProducts {
+  response: ProductsResponse;
+  storedAt: number;
+  // Older than the in-memory TTL: show it, but revalidate from the network
+  isStale: boolean;
+}
+
+// A products page from the persistent cache, for rendering before (or without) the network
+export const getCachedProducts = async (
+  page: number = 1,
+  perPage: number = PRODUCTS_PER_PAGE
+): Promise<CachedProducts | null> => {
+  const entry = await readCache<ProductsResponse>(productsCacheKey(page, perPage));
+  if (!entry) {
+    return null;
   }
+
+  const age = Date.now() - entry.storedAt;
+  if (age > PERSISTED_PRODUCTS_MAX_AGE) {
+    return null;
+  }
+
+  const isStale = age >= CACHE_DURATION;
+  if (!storeCurrency && entry.value.payload?.currency) {
+    storeCurrency = entry.value.payload.currency;
+  }
+  // A fresh persisted page is as good as a network response for product lookups
+  if (!isStale) {
+    cacheProductsResponse(entry.value, entry.storedAt);
+  }
+  return { response: entry.value, storedAt: entry.storedAt, isStale };
+};
+
+export const fetchProducts = (
+  page: number = 1,
+  perPage: number = PRODUCTS_PER_PAGE,
+  options: WebhookCallOptions = {}
+): Promise<ProductsResponse> => {
+  return shareRequest(
+    `get-products:${page}:${perPage}`,
+    'get-products',
+    () => requestProducts(page, perPage),
+    options.signal
+  );
+};
+
+export const getStoreCurrency = async (options: WebhookCallOptions = {}): Promise<StoreCurrency> => {
+  if (storeCurrency) {
+    return storeCurrency;
+  }
+  const response = await fetchProducts(1, PRODUCTS_PER_PAGE, options);
+  return response.payload.currency;
 };
 
-export const fetchProductDetail = async (variantId: string): Promise<Product> => {
+// The response schema moves the product under payload.product whichever shape n8n sent
+export interface ProductDetailResponse {
+  status_message?: string;
+  status_code?: string;
+  payload: {
+    product: Product;
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
+}
+
+export const fetchProductDetail = async (
+  variantId: string,
+  options: WebhookCallOptions = {}
+): Promise<Product> => {
   // Check cache first - prioritize cache from fetchProducts
   const cached = productCache.get(variantId);
   if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
@@ -95,57 +177,94 @@ export const fetchProductDetail = async (variantId: string): Promise<Product> =>
   }
 
   // If still not found, fallback to API call (shouldn't happen if fetchProducts was called first)
-  const url = `${WEBHOOK_URL}?function=get-product-detail`;
-  
+  let product: Product;
   try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      mode: 'cors',
-      body: JSON.stringify({ variant_id: variantId }),
+    const responseData = await callBackend('get-product-detail', { variant_id: variantId }, options);
+    product = responseData.payload.product;
+  } catch (error) {
+    // The id is all the lookup sends, so a refusal means the store has no such product
+    if (error instanceof WebhookBusinessError || (error instanceof WebhookHttpError && error.status === 404)) {
+      throw new ProductNotFoundError(variantId);
+    }
+    throw error;
+  }
+
+  // Cache the product
+  productCache.set(variantId, { product, timestamp: Date.now() });
+  
+  // Also cache by product_id and all variant_ids
+  if (product.product_id) {
+    productCache.set(product.product_id, { product, timestamp: Date.now() });
+  }
+  if (product.variants && product.variants.length > 0) {
+    product.variants.forEach(variant => {
+      if (variant.variant_id) {
+        productCache.set(variant.variant_id, { product, timestamp: Date.now() });
+      }
     });
+  }
+  
+  return product;
+};
 
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => response.statusText);
-      throw new Error(`API returned ${response.status}: ${errorText}`);
-    }
+export class ProductNotFoundError extends Error {
+  constructor(identifier: string) {
+    super(`Product "${identifier}" was not found`);
+    this.name = 'ProductNotFoundError';
+  }
+}
 
-    const responseData = await response.json();
-    let product: Product;
-    
-    // Handle different response formats
-    if (responseData.payload && responseData.payload.product) {
-      product = responseData.payload.product;
-    } else if (responseData.product) {
-      product = responseData.product;
-    } else if (responseData.product_id) {
-      product = responseData;
-    } else {
-      throw new Error('Unexpected API response format');
+const findProductByHandle = (products: Product[], handle: string): Product | undefined => {
+  return products.find(product => product.handle === handle);
+};
+
+const findPersistedProductByHandle = async (handle: string): Promise<Product | undefined> => {
+  for (let page = 1; ; page++) {
+    const cached = await getCachedProducts(page);
+    if (!cached) {
+      return undefined;
     }
+    const product = findProductByHandle(cached.response.payload?.products || [], handle);
+    if (product || !cached.response.payload?.pagination?.has_more_page) {
+      return product;
+    }
+  }
+};
 
-    // Cache the product
-    productCache.set(variantId, { product, timestamp: Date.now() });
-    
-    // Also cache by product_id and all variant_ids
-    if (product.product_id) {
-      productCache.set(product.product_id, { product, timestamp: Date.now() });
+export const fetchProductByHandle = async (
+  handle: string,
+  options: WebhookCallOptions = {}
+): Promise<Product> => {
+  // Handles only come from the products list, so look there first
+  if (productsListCache && Date.now() - productsListCache.timestamp < CACHE_DURATION) {
+    const cachedProduct = findProductByHandle(productsListCache.products, handle);
+    if (cachedProduct) {
+      return cachedProduct;
     }
-    if (product.variants && product.variants.length > 0) {
-      product.variants.forEach(variant => {
-        if (variant.variant_id) {
-          productCache.set(variant.variant_id, { product, timestamp: Date.now() });
-        }
-      });
+  }
+
+  // Walk the catalog page by page until the handle turns up
+  let page = 1;
+  try {
+    for (;;) {
+      const response = await fetchProducts(page, PRODUCTS_PER_PAGE, options);
+      const product = findProductByHandle(response.payload?.products || [], handle);
+      if (product) {
+        return product;
+      }
+      if (!response.payload?.pagination?.has_more_page) {
+        throw new ProductNotFoundError(handle);
+      }
+      page += 1;
     }
-    
-    return product;
   } catch (error) {
-    if (error instanceof TypeError && error.message.includes('Failed to fetch')) {
-      throw new Error('CORS error: Unable to fetch product. Please ensure CORS is enabled on the API.');
+    if (error instanceof ProductNotFoundError || isAbortError(error)) {
+      throw error;
+    }
+    // Store unreachable: fall back to the persisted catalog, however old
+    const persisted = await findPersistedProductByHandle(handle);
+    if (persisted) {
+      return persisted;
     }
     throw error;
   }
@@ -181,7 +300,8 @@ export interface AddToCartResponse {
 
 export const addToCart = async (
   productVariantId: string,
-  quantity: number = 1
+  quantity: number = 1,
+  options: WebhookCallOptions = {}
 ): Promise<AddToCartResponse> => {
   // Get cart_id from cookie if it exists
   const existingCartId = getCartId();
@@ -197,40 +317,16 @@ export const addToCart = async (
     body.cart_id = existingCartId;
   }
   
-  const url = `${WEBHOOK_URL}?function=add-to-cart`;
+  const responseData = await callBackend('add-to-cart', body, options);
   
-  try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      mode: 'cors',
-      body: JSON.stringify(body),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => response.statusText);
-      throw new Error(`Failed to add to cart: ${response.status} ${errorText}`);
-    }
-
-    const responseData = await response.json();
-    
-    // Check if response contains cart_id (new or existing)
-    const cartId = responseData.cart_id || responseData.payload?.cart_id;
-    if (cartId && cartId !== existingCartId) {
-      // Save new cart_id to cookie
-      setCartId(cartId);
-    }
-    
-    return responseData;
-  } catch (error) {
-    if (error instanceof TypeError && error.message.includes('Failed to fetch')) {
-      throw new Error('CORS error: Unable to add to cart. Please ensure CORS is enabled on the API.');
-    }
-    throw error;
+  // Check if response contains cart_id (new or existing)
+  const cartId = responseData.cart_id || responseData.payload?.cart_id;
+  if (cartId && cartId !== existingCartId) {
+    // Save new cart_id to cookie
+    setCartId(cartId);
   }
+  
+  return responseData;
 };
 
 export interface CartItemResponse {
@@ -239,82 +335,136 @@ export interface CartItemResponse {
   cart_id?: string;
   payload?: {
     cart_id?: string;
-    items?: Array<{
-      product_variant_id?: string;
-      product_id?: string;
-      quantity?: number;
-      name?: string;
-      price?: number;
-      image?: string;
-      [key: string]: unknown;
-    }>;
+    // Normalized from items or line_items by the response schema
+    items?: CartItem[];
+    coupon?: AppliedCoupon;
     [key: string]: unknown;
   };
   [key: string]: unknown;
 }
 
-export const getCartItems = async (cartId: string): Promise<CartItemResponse> => {
-  const url = `${WEBHOOK_URL}?function=get-cart`;
+export interface CartLoadOptions extends WebhookCallOptions {
+  // Skip joining a load already in flight, which may have started before a change to the cart
+  fresh?: boolean;
+}
+
+export const getCartItems = async (
+  cartId: string,
+  options: CartLoadOptions = {}
+): Promise<CartItemResponse> => {
+  // Concurrent loads of the same cart (drawer, cart page, StrictMode remounts) share one request
+  const responseData = options.fresh
+    ? await callBackend('get-cart', { cart_id: cartId }, { signal: options.signal })
+    : await shareRequest(
+      `get-cart:${cartId}`,
+      'get-cart',
+      () => callBackend('get-cart', { cart_id: cartId }),
+      options.signal
+    );
   
-  try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      mode: 'cors',
-      body: JSON.stringify({ cart_id: cartId }),
-    });
+  // Check if cart is empty and delete cart_id cookie if so
+  if (!responseData.payload?.items?.length) {
+    deleteCartId();
+  }
+  
+  return responseData;
+};
 
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => response.statusText);
-      throw new Error(`Failed to get cart items: ${response.status} ${errorText}`);
-    }
+export interface CouponResponse {
+  status_message?: string;
+  status_code?: string;
+  payload?: {
+    cart_id?: string;
+    // Missing once the code has been removed
+    coupon?: AppliedCoupon;
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
+}
 
-    const responseData = await response.json();
-    
-    // Check if cart is empty and delete cart_id cookie if so
-    const lineItems = responseData.payload?.line_items || [];
-    const items = responseData.payload?.items || [];
-    if (lineItems.length === 0 && items.length === 0) {
-      deleteCartId();
-    }
-    
-    return responseData;
-  } catch (error) {
-    if (error instanceof TypeError && error.message.includes('Failed to fetch')) {
-      throw new Error('CORS error: Unable to get cart items. Please ensure CORS is enabled on the API.');
-    }
-    throw error;
+// Codes are matched case-insensitively by the store; send them the way customers read them
+export const applyCoupon = async (
+  cartId: string,
+  couponCode: string,
+  options: WebhookCallOptions = {}
+): Promise<CouponResponse> => {
+  return callBackend('apply-coupon', {
+    cart_id: cartId,
+    coupon_code: couponCode.trim().toUpperCase(),
+  }, options);
+};
+
+export const removeCoupon = async (
+  cartId: string,
+  options: WebhookCallOptions = {}
+): Promise<CouponResponse> => {
+  return callBackend('remove-coupon', { cart_id: cartId }, options);
+};
+
+export interface CartItemUpdateResponse {
+  status_message?: string;
+  status_code?: string;
+  payload?: {
+    cart_id?: string;
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
+}
+
+export const removeCartItem = async (
+  productVariantId: string,
+  options: WebhookCallOptions = {}
+): Promise<CartItemUpdateResponse> => {
+  const cartId = getCartId();
+  if (!cartId) {
+    throw new Error('No cart found. Please add items to cart first.');
   }
+
+  return callBackend('remove-cart-item', {
+    cart_id: cartId,
+    product_variant_id: productVariantId,
+  }, options);
 };
 
+export const updateCartItemQuantity = async (
+  productVariantId: string,
+  quantity: number,
+  options: WebhookCallOptions = {}
+): Promise<CartItemUpdateResponse> => {
+  const cartId = getCartId();
+  if (!cartId) {
+    throw new Error('No cart found. Please add items to cart first.');
+  }
+
+  // A quantity of zero means the line item should go away entirely
+  if (quantity < 1) {
+    return removeCartItem(productVariantId, options);
+  }
+
+  return callBackend('update-cart-item', {
+    cart_id: cartId,
+    product_variant_id: productVariantId,
+    quantity,
+  }, options);
+};
+
+export interface CheckoutAddress {
+  first_name: string;
+  last_name: string;
+  email_address: string;
+  address: string;
+  street2: string;
+  city: string;
+  state: string;
+  postal_code: string;
+  telephone: string;
+  same_billing_address: boolean;
+  country: string;
+}
+
 export interface CheckoutAddressRequest {
-  shipping_address: {
-    first_name: string;
-    last_name: string;
-    email_address: string;
-    address: string;
-    city: string;
-    state: string;
-    postal_code: string;
-    telephone: string;
-    same_billing_address: boolean;
-    country: string;
-  };
-  billing_address: {
-    first_name: string;
-    last_name: string;
-    email_address: string;
-    address: string;
-    city: string;
-    state: string;
-    postal_code: string;
-    telephone: string;
-    same_billing_address: boolean;
-    country: string;
-  };
+  shipping_address: CheckoutAddress;
+  billing_address: CheckoutAddress;
 }
 
 export interface ShippingMethod {
@@ -399,15 +549,35 @@ export interface AddressDetail {
   countries: Country[];
 }
 
+// Server-side totals for the checkout; the review step shows these rather than the cart's
 export interface CheckoutOrder {
+  line_items?: CartItem[];
+  sub_total?: number;
   shipping?: ShippingMethod;
+  shipping_charge?: number;
+  tax_total?: number;
+  discount?: number;
   total?: number;
   [key: string]: unknown;
 }
 
+// A way to pay the store accepts, normalized from its payment_modes list
+export interface PaymentMode {
+  id: string;
+  label: string;
+  description: string;
+  // Shown once the mode is chosen, e.g. where to send a cheque
+  instructions: string;
+  // Paid outside the store (bank transfer, cheque): placed through place-order
+  offline: boolean;
+  // Paid on a payment provider's hosted page before confirm-checkout
+  hosted: boolean;
+}
+
 export interface CheckoutData {
   address_detail?: AddressDetail;
   order?: CheckoutOrder;
+  payment_modes?: PaymentMode[];
   [key: string]: unknown;
 }
 
@@ -422,198 +592,168 @@ export interface CheckoutResponse {
   [key: string]: unknown;
 }
 
-export const getCheckoutData = async (cartId: string): Promise<CheckoutResponse> => {
-  const url = `${WEBHOOK_URL}?function=get-checkout-info`;
-  
-  try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      mode: 'cors',
-      body: JSON.stringify({ checkout_id: cartId }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => response.statusText);
-      throw new Error(`Failed to get checkout data: ${response.status} ${errorText}`);
-    }
-
-    const responseData = await response.json();
-    return responseData;
-  } catch (error) {
-    if (error instanceof TypeError && error.message.includes('Failed to fetch')) {
-      throw new Error('CORS error: Unable to get checkout data. Please ensure CORS is enabled on the API.');
-    }
-    throw error;
-  }
+export const getCheckoutData = async (
+  cartId: string,
+  options: WebhookCallOptions = {}
+): Promise<CheckoutResponse> => {
+  return callBackend('get-checkout-info', { checkout_id: cartId }, options);
 };
 
 export const submitCheckoutAddress = async (
   cartId: string,
-  addressData: CheckoutAddressRequest
+  addressData: CheckoutAddressRequest,
+  options: WebhookCallOptions = {}
 ): Promise<CheckoutAddressResponse> => {
-  const url = `${WEBHOOK_URL}?function=add-address`;
-  
-  try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      mode: 'cors',
-      body: JSON.stringify({
-        checkout_id: cartId,
-        ...addressData,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => response.statusText);
-      throw new Error(`Failed to submit checkout address: ${response.status} ${errorText}`);
-    }
-
-    const responseData = await response.json();
-    return responseData;
-  } catch (error) {
-    if (error instanceof TypeError && error.message.includes('Failed to fetch')) {
-      throw new Error('CORS error: Unable to submit checkout address. Please ensure CORS is enabled on the API.');
-    }
-    throw error;
-  }
+  return callBackend('add-address', {
+    checkout_id: cartId,
+    ...addressData,
+  }, options);
 };
 
 export const submitShippingMethod = async (
   cartId: string,
-  shippingMethodId: string
+  shippingMethodId: string,
+  options: WebhookCallOptions = {}
 ): Promise<CheckoutShippingMethodResponse> => {
-  const url = `${WEBHOOK_URL}?function=add-shipping-methods`;
-  
-  try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      mode: 'cors',
-      body: JSON.stringify({
-        checkout_id: cartId,
-        shipping: shippingMethodId,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => response.statusText);
-      throw new Error(`Failed to submit shipping method: ${response.status} ${errorText}`);
-    }
-
-    const responseData = await response.json();
-    return responseData;
-  } catch (error) {
-    if (error instanceof TypeError && error.message.includes('Failed to fetch')) {
-      throw new Error('CORS error: Unable to submit shipping method. Please ensure CORS is enabled on the API.');
-    }
-    throw error;
-  }
+  return callBackend('add-shipping-methods', {
+    checkout_id: cartId,
+    shipping: shippingMethodId,
+  }, options);
 };
 
+// The response schema moves the sales order under payload.order when n8n sends one
 export interface ProcessOfflinePaymentResponse {
   status_message?: string;
   status_code?: string;
+  payload?: {
+    order?: Order;
+    // Issued by the proxy; needed to look the order up again with get-order
+    order_token?: string;
+    [key: string]: unknown;
+  };
   [key: string]: unknown;
 }
 
 export const processOfflinePayment = async (
   cartId: string,
-  paymentMode: string = 'cash_on_delivery'
+  paymentMode: string = 'cash_on_delivery',
+  options: WebhookCallOptions = {}
 ): Promise<ProcessOfflinePaymentResponse> => {
-  const url = `${WEBHOOK_URL}?function=place-order`;
-  
-  try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      mode: 'cors',
-      body: JSON.stringify({
-        checkout_id: cartId,
-        payment_mode: paymentMode,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => response.statusText);
-      throw new Error(`Failed to process payment: ${response.status} ${errorText}`);
-    }
-
-    const responseData = await response.json();
-    return responseData;
-  } catch (error) {
-    if (error instanceof TypeError && error.message.includes('Failed to fetch')) {
-      throw new Error('CORS error: Unable to process payment. Please ensure CORS is enabled on the API.');
-    }
-    throw error;
-  }
+  return callBackend('place-order', {
+    checkout_id: cartId,
+    payment_mode: paymentMode,
+  }, options);
 };
 
 export interface ConfirmCheckoutRequest {
   checkout_id: string;
   shipping?: string;
   payment_mode?: string;
+  // The paid card-payment session, for hosted payment modes
+  payment_session_id?: string;
 }
 
-export interface ConfirmCheckoutResponse {
-  status_message?: string;
-  status_code?: string;
-  [key: string]: unknown;
-}
+export type ConfirmCheckoutResponse = ProcessOfflinePaymentResponse;
 
 export const confirmCheckout = async (
   cartId: string,
   shippingMethodId?: string,
-  paymentMode: string = 'cash_on_delivery'
+  paymentMode: string = 'cash_on_delivery',
+  paymentSessionId?: string,
+  options: WebhookCallOptions = {}
 ): Promise<ConfirmCheckoutResponse> => {
-  const url = `${WEBHOOK_URL}?function=confirm-checkout`;
-  
-  try {
-    const body: ConfirmCheckoutRequest = {
-      checkout_id: cartId,
-      payment_mode: paymentMode,
-    };
+  const body: ConfirmCheckoutRequest = {
+    checkout_id: cartId,
+    payment_mode: paymentMode,
+  };
 
-    // Only include shipping if provided
-    if (shippingMethodId) {
-      body.shipping = shippingMethodId;
-    }
+  // Only include shipping if provided
+  if (shippingMethodId) {
+    body.shipping = shippingMethodId;
+  }
+  if (paymentSessionId) {
+    body.payment_session_id = paymentSessionId;
+  }
 
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      mode: 'cors',
-      body: JSON.stringify(body),
-    });
+  return callBackend('confirm-checkout', body, options);
+};
 
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => response.statusText);
-      throw new Error(`Failed to confirm checkout: ${response.status} ${errorText}`);
-    }
+export interface OrderResponse {
+  status_message?: string;
+  status_code?: string;
+  payload: {
+    order: Order;
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
+}
 
-    const responseData = await response.json();
-    return responseData;
-  } catch (error) {
-    if (error instanceof TypeError && error.message.includes('Failed to fetch')) {
-      throw new Error('CORS error: Unable to confirm checkout. Please ensure CORS is enabled on the API.');
-    }
-    throw error;
-  }
+// A placed order by its sales order id, e.g. to rebuild the confirmation page after a reload.
+// The proxy only answers with the order token that came back when the order was placed.
+export const fetchOrder = async (
+  orderId: string,
+  orderToken: string,
+  options: WebhookCallOptions = {}
+): Promise<Order> => {
+  const response = await callBackend('get-order', { salesorder_id: orderId, order_token: orderToken }, options);
+  return response.payload.order;
+};
+
+export type PaymentSessionStatus = 'open' | 'paid' | 'failed' | 'cancelled';
+
+// A card payment on the provider's hosted page, priced by the server from the checkout
+export interface PaymentSession {
+  session_id: string;
+  checkout_id: string;
+  status: PaymentSessionStatus;
+  amount: number;
+  currency_code: string;
+  // The provider's hosted page
+  redirect_url: string;
+}
+
+export interface PaymentSessionResponse {
+  status_message?: string;
+  status_code?: string;
+  payload: {
+    session: PaymentSession;
+    // Only from complete-fake-payment: the return or cancel page to go to next
+    continue_url?: string;
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
+}
+
+// The provider appends ?session_id= to the return and cancel URLs
+export const createPaymentSession = async (
+  cartId: string,
+  paymentMode: string,
+  returnUrl: string,
+  cancelUrl: string,
+  options: WebhookCallOptions = {}
+): Promise<PaymentSession> => {
+  const response = await callBackend('create-payment-session', {
+    checkout_id: cartId,
+    payment_mode: paymentMode,
+    return_url: returnUrl,
+    cancel_url: cancelUrl,
+  }, options);
+  return response.payload.session;
 };
 
+export const fetchPaymentSession = async (
+  sessionId: string,
+  options: WebhookCallOptions = {}
+): Promise<PaymentSession> => {
+  const response = await callBackend('get-payment-session', { session_id: sessionId }, options);
+  return response.payload.session;
+};
+
+// What the fake provider's hosted page reports; real providers have their own page
+export const completeFakePayment = async (
+  sessionId: string,
+  outcome: Exclude<PaymentSessionStatus, 'open'>,
+  options: WebhookCallOptions = {}
+): Promise<PaymentSessionResponse> => {
+  return callBackend('complete-fake-payment', { session_id: sessionId, outcome }, options);
+};
@@ -0,0 +1,32 @@
+import { mockBackend } from './mock';
+import { n8nBackend } from './n8n';
+import { zohoBackend } from './zoho';
+import type { BackendAdapter, BackendName } from './types';
+
+export type { BackendAdapter, BackendName } from './types';
+
+const BACKENDS: Record<BackendName, BackendAdapter> = {
+  n8n: n8nBackend,
+  zoho: zohoBackend,
+  mock: mockBackend,
+};
+
+const isBackendName = (value: unknown): value is BackendName => {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(BACKENDS, value);
+};
+
+// VITE_BACKEND picks the implementation at build time; n8n unless told otherwise
+const resolveBackend = (): BackendAdapter => {
+  const configured = import.meta.env.VITE_BACKEND;
+  if (configured && !isBackendName(configured)) {
+    console.warn(`Unknown VITE_BACKEND "${configured}", falling back to n8n`);
+  }
+  return isBackendName(configured) ? BACKENDS[configured] : n8nBackend;
+};
+
+export const backend: BackendAdapter = resolveBackend();
+
+// Drop-in for callWebhook: same arguments, routed through the configured backend
+export const callBackend: BackendAdapter['call'] = (functionName, body, options) => {
+  return backend.call(functionName, body, options);
+};
@@ -0,0 +1,39 @@
+import { WebhookAbortedError } from '../errors';
+import { parseFunctionResponse, wait } from '../webhook';
+import type { BackendAdapter } from './types';
+
+// Small delay so loading states are visible, as they would be against n8n
+const MOCK_LATENCY_MS = 150;
+
+type MockModule = typeof import('../../../mock/handlers');
+
+// Loaded on first use so the fixtures stay out of bundles that never select the mock
+let mockModule: Promise<{ handlers: MockModule['MOCK_HANDLERS']; state: ReturnType<MockModule['createMockState']> }> | null = null;
+
+const loadMock = () => {
+  if (!mockModule) {
+    mockModule = import('../../../mock/handlers').then(({ MOCK_HANDLERS, createMockState }) => ({
+      handlers: MOCK_HANDLERS,
+      state: createMockState(),
+    }));
+  }
+  return mockModule;
+};
+
+// Runs the mock webhook handlers in the browser; carts live until the page reloads
+export const mockBackend: BackendAdapter = {
+  name: 'mock',
+  call: async (functionName, body, options = {}) => {
+    const { handlers, state } = await loadMock();
+    await wait(MOCK_LATENCY_MS, functionName, options.signal);
+    if (options.signal?.aborted) {
+      throw new WebhookAbortedError(functionName);
+    }
+
+    // The handlers read the body as the plain record the mock server parses from JSON, and
+    // the response round-trips through JSON like a real one, so callers never share mock state
+    const request: Record<string, unknown> = Object.fromEntries(Object.entries(body));
+    const data = JSON.parse(JSON.stringify(handlers[functionName](state, request)));
+    return parseFunctionResponse(functionName, data);
+  },
+};
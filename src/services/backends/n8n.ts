@@ -0,0 +1,8 @@
+import { callWebhook } from '../webhook';
+import type { BackendAdapter } from './types';
+
+// Every function goes through the n8n webhook (via the /webhook proxy)
+export const n8nBackend: BackendAdapter = {
+  name: 'n8n',
+  call: (functionName, body, options) => callWebhook(functionName, body, options),
+};
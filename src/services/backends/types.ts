@@ -0,0 +1,19 @@
+import type {
+  WebhookCallOptions,
+  WebhookFunctionName,
+  WebhookRequest,
+  WebhookResponse,
+} from '../webhook';
+
+export type BackendName = 'n8n' | 'zoho' | 'mock';
+
+// Everything api.ts needs from a backend: run one function and return its
+// validated, normalized response. Adapters differ only in how they get there.
+export interface BackendAdapter {
+  readonly name: BackendName;
+  call<F extends WebhookFunctionName>(
+    functionName: F,
+    body: WebhookRequest<F>,
+    options?: WebhookCallOptions
+  ): Promise<WebhookResponse<F>>;
+}
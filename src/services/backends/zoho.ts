@@ -0,0 +1,109 @@
+import {
+  callEndpoint,
+  type WebhookCallOptions,
+  type WebhookFunctionName,
+  type WebhookRequest,
+  type WebhookResponse,
+} from '../webhook';
+import type { Product } from '../../types/product';
+import { n8nBackend } from './n8n';
+import type { BackendAdapter } from './types';
+
+// Relayed to commerce.zoho.com/storefront/api/v1 with the store's domain-name header:
+// by api/storefront.ts when deployed (see vercel.json), by the Vite dev server locally
+const ZOHO_API_URL = '/api/storefront';
+
+// Largest page the listing allows, so a variant lookup takes as few requests as possible
+const LOOKUP_PAGE_SIZE = 100;
+
+// Same lifetime as the product caches in api.ts
+const INDEX_DURATION = 5 * 60 * 1000;
+
+const productsUrl = (page: number, perPage: number) => {
+  return `${ZOHO_API_URL}/products?${new URLSearchParams({ page: String(page), per_page: String(perPage) })}`;
+};
+
+// Product and variant ids to product ids, from every listing page that passes through here
+const productIds = new Map<string, { productId: string; timestamp: number }>();
+// When the whole catalog was last indexed, so an unknown id doesn't walk it again
+let fullyIndexedAt = 0;
+let indexing: Promise<void> | null = null;
+
+const indexProducts = (products: Product[]) => {
+  const timestamp = Date.now();
+  for (const product of products) {
+    productIds.set(product.product_id, { productId: product.product_id, timestamp });
+    product.variants?.forEach(variant => productIds.set(variant.variant_id, { productId: product.product_id, timestamp }));
+  }
+};
+
+const getProducts = async (
+  body: WebhookRequest<'get-products'>,
+  options?: WebhookCallOptions
+): Promise<WebhookResponse<'get-products'>> => {
+  // Zoho answers with the same envelope n8n relays, so the same schemas apply
+  const response = await callEndpoint('get-products', { url: productsUrl(body.page, body.per_page), method: 'GET' }, options);
+  indexProducts(response.payload?.products || []);
+  return response;
+};
+
+// Walks the listing once for every lookup that misses meanwhile; like shareRequest, one
+// caller giving up doesn't stop the walk for the others
+const indexCatalog = (): Promise<void> => {
+  if (!indexing) {
+    indexing = (async () => {
+      for (let page = 1; ; page++) {
+        const response = await getProducts({ page, per_page: LOOKUP_PAGE_SIZE });
+        if (!response.payload?.pagination?.has_more_page) break;
+      }
+      fullyIndexedAt = Date.now();
+    })().finally(() => {
+      indexing = null;
+    });
+  }
+  return indexing;
+};
+
+// The Storefront API looks products up by product id only. Variant ids come from the listing,
+// which carries every product's variants; the id is passed on as-is when nothing matches so
+// the store's own not-found answer comes back.
+const findProductId = async (id: string): Promise<string> => {
+  const known = productIds.get(id);
+  if (known && Date.now() - known.timestamp < INDEX_DURATION) {
+    return known.productId;
+  }
+  if (Date.now() - fullyIndexedAt >= INDEX_DURATION) {
+    await indexCatalog();
+  }
+  return productIds.get(id)?.productId ?? id;
+};
+
+const getProductDetail = async (
+  body: WebhookRequest<'get-product-detail'>,
+  options?: WebhookCallOptions
+): Promise<WebhookResponse<'get-product-detail'>> => {
+  const productId = await findProductId(body.variant_id);
+  return callEndpoint('get-product-detail', {
+    url: `${ZOHO_API_URL}/products/${encodeURIComponent(productId)}`,
+    method: 'GET',
+  }, options);
+};
+
+type CatalogHandlers = {
+  [F in WebhookFunctionName]?: (body: WebhookRequest<F>, options?: WebhookCallOptions) => Promise<WebhookResponse<F>>;
+};
+
+// Read-only catalog calls go to the Zoho Storefront API; cart and checkout
+// still need n8n, which holds the credentials for those
+const CATALOG_HANDLERS: CatalogHandlers = {
+  'get-products': getProducts,
+  'get-product-detail': getProductDetail,
+};
+
+export const zohoBackend: BackendAdapter = {
+  name: 'zoho',
+  call: (functionName, body, options) => {
+    const handler = CATALOG_HANDLERS[functionName];
+    return handler ? handler(body, options) : n8nBackend.call(functionName, body, options);
+  },
+};
@@ -0,0 +1,103 @@
+// Errors raised by the webhook client. Everything extends WebhookError so callers
+// can catch one type and still branch on what went wrong.
+
+import type { SchemaIssue } from './schema';
+
+export class WebhookError extends Error {
+  readonly functionName: string;
+
+  constructor(message: string, functionName: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'WebhookError';
+    this.functionName = functionName;
+  }
+}
+
+// The request never got a response: offline, DNS, CORS or a dropped connection
+export class WebhookNetworkError extends WebhookError {
+  constructor(functionName: string, options?: { cause?: unknown }) {
+    super('Unable to reach the store. Please check your connection and try again.', functionName, options);
+    this.name = 'WebhookNetworkError';
+  }
+}
+
+export class WebhookTimeoutError extends WebhookError {
+  readonly timeoutMs: number;
+
+  constructor(functionName: string, timeoutMs: number) {
+    super('The store took too long to respond. Please try again.', functionName);
+    this.name = 'WebhookTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+// The caller cancelled the request, usually because the component unmounted
+export class WebhookAbortedError extends WebhookError {
+  constructor(functionName: string) {
+    super('Request was cancelled', functionName);
+    this.name = 'WebhookAbortedError';
+  }
+}
+
+export class WebhookHttpError extends WebhookError {
+  readonly status: number;
+  readonly body: string;
+
+  constructor(functionName: string, status: number, body: string) {
+    super(`Request failed with status ${status}${body ? `: ${body}` : ''}`, functionName);
+    this.name = 'WebhookHttpError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+// The proxy throttled us (429); the message is meant to be shown as-is
+export class WebhookRateLimitError extends WebhookHttpError {
+  readonly retryAfterMs: number;
+
+  constructor(functionName: string, retryAfterMs: number, body: string) {
+    super(functionName, 429, body);
+    const seconds = Math.max(1, Math.ceil(retryAfterMs / 1000));
+    this.message = `You're going a little fast. Please wait ${seconds} second${seconds === 1 ? '' : 's'} and try again.`;
+    this.name = 'WebhookRateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// The webhook answered, but Zoho reported a failure through status_code
+export class WebhookBusinessError extends WebhookError {
+  readonly statusCode: string;
+  readonly response: unknown;
+
+  constructor(functionName: string, statusCode: string, statusMessage: string | undefined, response: unknown) {
+    super(statusMessage || `Request failed with status code ${statusCode}`, functionName);
+    this.name = 'WebhookBusinessError';
+    this.statusCode = statusCode;
+    this.response = response;
+  }
+}
+
+// The response body was not the JSON we expected
+export class WebhookPayloadError extends WebhookError {
+  constructor(functionName: string, message: string, options?: { cause?: unknown }) {
+    super(message, functionName, options);
+    this.name = 'WebhookPayloadError';
+  }
+}
+
+// The response parsed, but did not match the schema for that function
+export class WebhookValidationError extends WebhookPayloadError {
+  readonly issues: SchemaIssue[];
+
+  constructor(functionName: string, issues: SchemaIssue[]) {
+    const summary = issues.slice(0, 3).map(issue => `${issue.path}: ${issue.message}`).join('; ');
+    const more = issues.length > 3 ? ` (+${issues.length - 3} more)` : '';
+    super(functionName, `The store returned data in an unexpected format (${summary}${more}).`);
+    this.name = 'WebhookValidationError';
+    this.issues = issues;
+  }
+}
+
+export const isAbortError = (error: unknown): boolean => {
+  return error instanceof WebhookAbortedError;
+};
@@ -0,0 +1,192 @@
+// Persistent key-value cache that survives reloads. Uses IndexedDB where it is
+// available and falls back to localStorage (private browsing, old browsers).
+// Every failure here is swallowed: the cache is an optimization, never a source of errors.
+
+// Bump when the shape of cached values changes; older entries are then discarded
+export const CACHE_SCHEMA_VERSION = 1;
+
+// Upper bound for everything we keep, measured as serialized JSON length
+const MAX_CACHE_BYTES = 2 * 1024 * 1024;
+
+const DB_NAME = 'activepharm-cache';
+const STORE_NAME = 'entries';
+const LOCAL_STORAGE_PREFIX = 'activepharm-cache:';
+
+export interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+}
+
+interface CacheRecord {
+  key: string;
+  version: number;
+  storedAt: number;
+  size: number;
+  value: unknown;
+}
+
+interface CacheBackend {
+  get(key: string): Promise<CacheRecord | undefined>;
+  put(record: CacheRecord): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(): Promise<CacheRecord[]>;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const openIndexedDb = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    // The schema version doubles as the database version, so a bump recreates the store
+    const request = indexedDB.open(DB_NAME, CACHE_SCHEMA_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (db.objectStoreNames.contains(STORE_NAME)) {
+        db.deleteObjectStore(STORE_NAME);
+      }
+      db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab'));
+  });
+};
+
+const createIndexedDbBackend = (db: IDBDatabase): CacheBackend => {
+  const store = (mode: IDBTransactionMode) => db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+
+  return {
+    get: (key) => requestToPromise(store('readonly').get(key) as IDBRequest<CacheRecord | undefined>),
+    put: async (record) => {
+      await requestToPromise(store('readwrite').put(record));
+    },
+    delete: async (key) => {
+      await requestToPromise(store('readwrite').delete(key));
+    },
+    list: () => requestToPromise(store('readonly').getAll() as IDBRequest<CacheRecord[]>),
+  };
+};
+
+const createLocalStorageBackend = (storage: Storage): CacheBackend => {
+  const parse = (raw: string | null): CacheRecord | undefined => {
+    if (!raw) return undefined;
+    try {
+      return JSON.parse(raw) as CacheRecord;
+    } catch {
+      return undefined;
+    }
+  };
+
+  const keys = (): string[] => {
+    const result: string[] = [];
+    for (let i = 0; i < storage.length; i++) {
+      const key = storage.key(i);
+      if (key?.startsWith(LOCAL_STORAGE_PREFIX)) {
+        result.push(key);
+      }
+    }
+    return result;
+  };
+
+  // localStorage has no upgrade hook, so drop entries from older schema versions up front
+  keys().forEach(key => {
+    if (parse(storage.getItem(key))?.version !== CACHE_SCHEMA_VERSION) {
+      storage.removeItem(key);
+    }
+  });
+
+  return {
+    get: async (key) => parse(storage.getItem(LOCAL_STORAGE_PREFIX + key)),
+    put: async (record) => {
+      storage.setItem(LOCAL_STORAGE_PREFIX + record.key, JSON.stringify(record));
+    },
+    delete: async (key) => {
+      storage.removeItem(LOCAL_STORAGE_PREFIX + key);
+    },
+    list: async () => keys()
+      .map(key => parse(storage.getItem(key)))
+      .filter((record): record is CacheRecord => !!record),
+  };
+};
+
+let backendPromise: Promise<CacheBackend | null> | null = null;
+
+const getBackend = (): Promise<CacheBackend | null> => {
+  if (!backendPromise) {
+    backendPromise = openIndexedDb()
+      .then(createIndexedDbBackend)
+      .catch((error) => {
+        console.warn('IndexedDB cache unavailable, falling back to localStorage:', error);
+        try {
+          return createLocalStorageBackend(window.localStorage);
+        } catch {
+          return null;
+        }
+      });
+  }
+  return backendPromise;
+};
+
+// Drop the oldest entries until the cache (plus `reserve` bytes about to be written) fits the cap
+const enforceSizeCap = async (backend: CacheBackend, reserve = 0): Promise<void> => {
+  const records = await backend.list();
+  let total = records.reduce((sum, record) => sum + record.size, 0) + reserve;
+  const oldestFirst = [...records].sort((a, b) => a.storedAt - b.storedAt);
+
+  for (const record of oldestFirst) {
+    if (total <= MAX_CACHE_BYTES) break;
+    await backend.delete(record.key);
+    total -= record.size;
+  }
+};
+
+export const readCache = async <T>(key: string): Promise<CacheEntry<T> | null> => {
+  try {
+    const backend = await getBackend();
+    const record = await backend?.get(key);
+    if (!backend || !record) {
+      return null;
+    }
+    if (record.version !== CACHE_SCHEMA_VERSION) {
+      await backend.delete(key);
+      return null;
+    }
+    return { value: record.value as T, storedAt: record.storedAt };
+  } catch (error) {
+    console.warn(`Failed to read "${key}" from cache:`, error);
+    return null;
+  }
+};
+
+export const writeCache = async <T>(key: string, value: T): Promise<void> => {
+  try {
+    const backend = await getBackend();
+    if (!backend) return;
+
+    const size = JSON.stringify(value).length;
+    if (size > MAX_CACHE_BYTES) {
+      return;
+    }
+
+    const record: CacheRecord = { key, version: CACHE_SCHEMA_VERSION, storedAt: Date.now(), size, value };
+    try {
+      await backend.put(record);
+    } catch {
+      // Most likely over the browser quota: make room and try once more
+      await backend.delete(key);
+      await enforceSizeCap(backend, size);
+      await backend.put(record);
+    }
+    await enforceSizeCap(backend);
+  } catch (error) {
+    console.warn(`Failed to write "${key}" to cache:`, error);
+  }
+};
@@ -0,0 +1,90 @@
+// Minimal runtime schemas for webhook payloads. Each schema checks a value,
+// coerces the loose types n8n/Zoho send (numeric strings, numeric ids) and
+// records every problem with its path instead of stopping at the first one.
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export type Schema<T> = (value: unknown, path: string, issues: SchemaIssue[]) => T;
+
+export const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const fail = <T>(issues: SchemaIssue[], path: string, message: string, fallback: T): T => {
+  issues.push({ path: path || '(root)', message });
+  return fallback;
+};
+
+export const string = (): Schema<string> => (value, path, issues) => {
+  if (typeof value === 'string') return value;
+  // Zoho ids sometimes arrive as numbers
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return fail(issues, path, `expected string, got ${describe(value)}`, '');
+};
+
+export const number = (): Schema<number> => (value, path, issues) => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+    return Number(value);
+  }
+  return fail(issues, path, `expected number, got ${describe(value)}${typeof value === 'string' ? ` "${value}"` : ''}`, 0);
+};
+
+export const boolean = (): Schema<boolean> => (value, path, issues) => {
+  if (typeof value === 'boolean') return value;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return fail(issues, path, `expected boolean, got ${describe(value)}`, false);
+};
+
+// Values we keep as-is without checking them
+export const unknownValue = <T = unknown>(): Schema<T> => (value) => value as T;
+
+// Missing (undefined or null) values take the fallback; present ones must match
+export const optional = <T, F = T>(schema: Schema<T>, fallback: F): Schema<T | F> => (value, path, issues) => {
+  if (value === undefined || value === null) return fallback;
+  return schema(value, path, issues);
+};
+
+export const array = <T>(item: Schema<T>): Schema<T[]> => (value, path, issues) => {
+  if (!Array.isArray(value)) {
+    return fail(issues, path, `expected array, got ${describe(value)}`, []);
+  }
+  return value.map((entry, index) => item(entry, `${path}[${index}]`, issues));
+};
+
+export type ObjectShape<T> = { [K in keyof T]?: Schema<T[K]> };
+
+// Checks the listed fields and passes every other field through untouched
+export const object = <T>(shape: ObjectShape<T>): Schema<T> => (value, path, issues) => {
+  if (!isRecord(value)) {
+    return fail(issues, path, `expected object, got ${describe(value)}`, {} as T);
+  }
+
+  const result: Record<string, unknown> = { ...value };
+  for (const key of Object.keys(shape) as Array<keyof T & string>) {
+    const fieldSchema = shape[key] as Schema<unknown>;
+    result[key] = fieldSchema(value[key], path ? `${path}.${key}` : key, issues);
+  }
+  return result as T;
+};
+
+// Reshape a raw value (e.g. pick between alias fields) before validating it
+export const preprocess = <T>(transform: (value: unknown) => unknown, schema: Schema<T>): Schema<T> => {
+  return (value, path, issues) => schema(transform(value), path, issues);
+};
+
+export const parseSchema = <T>(schema: Schema<T>, value: unknown): { value: T; issues: SchemaIssue[] } => {
+  const issues: SchemaIssue[] = [];
+  const parsed = schema(value, '', issues);
+  return { value: parsed, issues };
+};
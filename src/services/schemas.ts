@@ -0,0 +1,517 @@
+// Response schemas for the webhook functions. Besides validating, these fold the
+// different shapes n8n and Zoho use for the same data into one internal model.
+
+import type {
+  PriceBracket,
+  Product,
+  ProductAttribute,
+  ProductImage,
+  ProductsResponse,
+  ProductVariant,
+  StoreCurrency,
+  VariantOption,
+} from '../types/product';
+import type { AppliedCoupon, CartItem } from '../types/cart';
+import type { Order, OrderAddress, OrderLineItem, PaymentReference } from '../types/order';
+import type {
+  Address,
+  AddressDetail,
+  CartItemResponse,
+  CheckoutAddressResponse,
+  CheckoutData,
+  CheckoutOrder,
+  CheckoutResponse,
+  ConfirmCheckoutResponse,
+  CouponResponse,
+  Country,
+  OrderResponse,
+  PaymentMode,
+  PaymentSession,
+  PaymentSessionResponse,
+  ProductDetailResponse,
+  ShippingMethod,
+  State,
+} from './api';
+import type { WebhookFunctionName, WebhookResponse } from './webhook';
+import { DEFAULT_CURRENCY } from '../utils/money';
+import {
+  array,
+  boolean,
+  isRecord,
+  number,
+  object,
+  optional,
+  preprocess,
+  string,
+  unknownValue,
+  type Schema,
+} from './schema';
+
+const imageSchema = object<ProductImage>({
+  url: string(),
+  id: optional(string(), ''),
+  alternate_text: optional(string(), ''),
+  title: optional(string(), ''),
+  is_featured: optional(boolean(), false),
+  is_placeholder_image: optional(boolean(), false),
+  order: optional(number(), 0),
+});
+
+const variantOptionSchema = object<VariantOption>({
+  id: optional(string(), ''),
+  name: string(),
+  value: string(),
+});
+
+const attributeSchema = object<ProductAttribute>({
+  id: optional(string(), ''),
+  name: string(),
+  options: optional(array(object<ProductAttribute['options'][number]>({
+    id: optional(string(), ''),
+    name: string(),
+  })), []),
+});
+
+// An empty or zero end quantity means the bracket has no upper limit
+const priceBracketSchema = preprocess(
+  (value) => {
+    if (!isRecord(value)) return value;
+    const end = value.end_quantity ?? value.to_quantity;
+    return {
+      ...value,
+      start_quantity: value.start_quantity ?? value.from_quantity,
+      end_quantity: end === '' || Number(end) === 0 ? undefined : end,
+      price: value.price ?? value.pricebook_rate ?? value.rate,
+    };
+  },
+  object<PriceBracket>({
+    start_quantity: number(),
+    end_quantity: optional(number(), undefined),
+    price: number(),
+  })
+);
+
+const variantSchema = object<ProductVariant>({
+  variant_id: string(),
+  selling_price: number(),
+  label_price: optional(number(), 0),
+  stock_available: optional(number(), 0),
+  is_out_of_stock: optional(boolean(), false),
+  is_available_for_purchase: optional(boolean(), true),
+  sku: optional(string(), ''),
+  images: optional(array(imageSchema), []),
+  options: optional(array(variantOptionSchema), []),
+  price_brackets: optional(array(priceBracketSchema), []),
+});
+
+export const productSchema = object<Product>({
+  product_id: string(),
+  name: string(),
+  selling_price: number(),
+  label_price: optional(number(), 0),
+  handle: optional(string(), ''),
+  url: optional(string(), ''),
+  short_description: optional(string(), ''),
+  description: optional(string(), ''),
+  brand: optional(string(), ''),
+  manufacturer: optional(string(), ''),
+  category_id: optional(string(), ''),
+  category_name: optional(string(), ''),
+  currency_code: optional(string(), ''),
+  on_sale: optional(boolean(), false),
+  is_out_of_stock: optional(boolean(), false),
+  has_variants: optional(boolean(), false),
+  is_product_price_brackets_available: optional(boolean(), false),
+  images: optional(array(imageSchema), []),
+  variants: optional(array(variantSchema), []),
+  attributes: optional(array(attributeSchema), []),
+  tags: optional(array(string()), []),
+});
+
+const currencySchema = object<StoreCurrency>({
+  code: string(),
+  symbol: optional(string(), ''),
+  symbol_formatted: optional(string(), ''),
+  format: optional(string(), DEFAULT_CURRENCY.format),
+  symbol_on_left: optional(boolean(), true),
+  code_on_left: optional(boolean(), false),
+});
+
+type Pagination = ProductsResponse['payload']['pagination'];
+
+const productsResponseSchema = object<ProductsResponse>({
+  payload: object<ProductsResponse['payload']>({
+    products: array(productSchema),
+    currency: optional(currencySchema, DEFAULT_CURRENCY),
+    pagination: optional(object<Pagination>({
+      current_page: number(),
+      per_page: optional(number(), 0),
+      has_more_page: optional(boolean(), false),
+      total_number_of_pages: optional(number(), 1),
+    }), { current_page: 1, per_page: 0, has_more_page: false, total_number_of_pages: 1 }),
+  }),
+});
+
+// The product can come back under payload.product, under product, or as the body itself
+const productDetailResponseSchema = preprocess(
+  (value) => {
+    if (!isRecord(value)) return value;
+    const payload = isRecord(value.payload) ? value.payload : {};
+    const product = payload.product ?? value.product ?? (value.product_id ? value : undefined);
+    return { ...value, payload: { ...payload, product } };
+  },
+  object<ProductDetailResponse>({
+    payload: object<ProductDetailResponse['payload']>({
+      product: productSchema,
+    }),
+  })
+);
+
+// Cart items use different field names depending on which n8n branch produced them
+const cartItemSchema = preprocess(
+  (value) => {
+    if (!isRecord(value)) return value;
+    return {
+      ...value,
+      variant_id: value.product_variant_id ?? value.variant_id,
+      name: value.name ?? value.product_name,
+      price: value.price ?? value.selling_price,
+      image: value.image ?? value.image_url,
+      base_price: value.base_price ?? value.regular_price,
+    };
+  },
+  object<CartItem>({
+    product_id: optional(string(), ''),
+    variant_id: string(),
+    quantity: number(),
+    name: string(),
+    price: number(),
+    image: optional(string(), undefined),
+    price_brackets: optional(array(priceBracketSchema), undefined),
+    base_price: optional(number(), undefined),
+  })
+);
+
+const couponSchema = preprocess(
+  (value) => {
+    if (!isRecord(value)) return value;
+    return {
+      ...value,
+      code: value.code ?? value.coupon_code,
+      description: value.description ?? value.name,
+      discount: value.discount ?? value.discount_amount,
+    };
+  },
+  object<AppliedCoupon>({
+    code: string(),
+    description: optional(string(), ''),
+    discount: optional(number(), 0),
+  })
+);
+
+// The coupon may arrive as payload.coupon or payload.applied_coupon, or not at all
+const withCoupon = (payload: Record<string, unknown>) => ({
+  ...payload,
+  coupon: payload.coupon ?? payload.applied_coupon ?? undefined,
+});
+
+const cartResponseSchema = preprocess(
+  (value) => {
+    if (!isRecord(value) || !isRecord(value.payload)) return value;
+    const items = value.payload.items ?? value.payload.line_items;
+    return { ...value, payload: { ...withCoupon(value.payload), items } };
+  },
+  object<CartItemResponse>({
+    payload: optional(object<NonNullable<CartItemResponse['payload']>>({
+      cart_id: optional(string(), undefined),
+      items: optional(array(cartItemSchema), []),
+      coupon: optional(couponSchema, undefined),
+    }), undefined),
+  })
+);
+
+const couponResponseSchema = preprocess(
+  (value) => {
+    if (!isRecord(value) || !isRecord(value.payload)) return value;
+    return { ...value, payload: withCoupon(value.payload) };
+  },
+  object<CouponResponse>({
+    payload: optional(object<NonNullable<CouponResponse['payload']>>({
+      cart_id: optional(string(), undefined),
+      coupon: optional(couponSchema, undefined),
+    }), undefined),
+  })
+);
+
+const shippingMethodSchema = object<ShippingMethod>({
+  id: string(),
+  name: string(),
+  rate: number(),
+  handling_fees: optional(number(), 0),
+  delivery_time: optional(string(), ''),
+  is_default: optional(boolean(), false),
+});
+
+const stateSchema = object<State>({
+  code: string(),
+  name: string(),
+});
+
+const countrySchema = object<Country>({
+  code: string(),
+  name: string(),
+  mobile_code: optional(string(), ''),
+  states: optional(array(stateSchema), []),
+});
+
+const addressSchema = object<Address>({
+  first_name: optional(string(), ''),
+  last_name: optional(string(), ''),
+  full_name: optional(string(), ''),
+  email_address: optional(string(), ''),
+  company: optional(string(), ''),
+  address: optional(string(), ''),
+  street2: optional(string(), ''),
+  city: optional(string(), ''),
+  state: optional(string(), ''),
+  state_name: optional(string(), ''),
+  postal_code: optional(string(), ''),
+  country: optional(string(), ''),
+  country_name: optional(string(), ''),
+  telephone: optional(string(), ''),
+  is_selected: optional(boolean(), false),
+  is_selected_billing_address: optional(boolean(), false),
+  same_billing_address: optional(boolean(), false),
+});
+
+const addressDetailSchema = object<AddressDetail>({
+  addresses: optional(array(addressSchema), []),
+  countries: optional(array(countrySchema), []),
+  all_countries: optional(array(unknownValue<AddressDetail['all_countries'][number]>()), []),
+});
+
+const checkoutOrderSchema = preprocess(
+  (value) => {
+    if (!isRecord(value)) return value;
+    return {
+      ...value,
+      line_items: value.line_items ?? value.items,
+      tax_total: value.tax_total ?? value.tax_amount,
+      discount: value.discount ?? value.discount_total ?? value.discount_amount,
+    };
+  },
+  object<CheckoutOrder>({
+    line_items: optional(array(cartItemSchema), undefined),
+    sub_total: optional(number(), undefined),
+    shipping: optional(shippingMethodSchema, undefined),
+    shipping_charge: optional(number(), undefined),
+    tax_total: optional(number(), undefined),
+    discount: optional(number(), undefined),
+    total: optional(number(), undefined),
+  })
+);
+
+// Zoho lists modes as { payment_mode, name, is_offline }
+const paymentModeSchema = preprocess(
+  (value) => {
+    if (!isRecord(value)) return value;
+    return {
+      ...value,
+      id: value.id ?? value.payment_mode,
+      label: value.label ?? value.name,
+      offline: value.offline ?? value.is_offline,
+      hosted: value.hosted ?? value.is_hosted,
+    };
+  },
+  object<PaymentMode>({
+    id: string(),
+    label: string(),
+    description: optional(string(), ''),
+    instructions: optional(string(), ''),
+    offline: optional(boolean(), false),
+    hosted: optional(boolean(), false),
+  })
+);
+
+const checkoutResponseSchema = object<CheckoutResponse>({
+  payload: optional(object<NonNullable<CheckoutResponse['payload']>>({
+    checkout: optional(object<CheckoutData>({
+      address_detail: optional(addressDetailSchema, undefined),
+      order: optional(checkoutOrderSchema, undefined),
+      payment_modes: optional(array(paymentModeSchema), undefined),
+    }), undefined),
+  }), undefined),
+  address_detail: optional(addressDetailSchema, undefined),
+});
+
+const addressResponseSchema = object<CheckoutAddressResponse>({
+  payload: optional(object<NonNullable<CheckoutAddressResponse['payload']>>({
+    checkout_shipping_methods: optional(object<NonNullable<NonNullable<CheckoutAddressResponse['payload']>['checkout_shipping_methods']>>({
+      shipping_methods: optional(array(shippingMethodSchema), []),
+    }), undefined),
+  }), undefined),
+});
+
+// Sales order line items carry Zoho's rate/item_total names, or the cart's names
+const orderLineItemSchema = preprocess(
+  (value) => {
+    if (!isRecord(value)) return value;
+    const price = value.rate ?? value.price ?? value.selling_price;
+    return {
+      ...value,
+      variant_id: value.product_variant_id ?? value.variant_id ?? value.item_id,
+      name: value.name ?? value.product_name,
+      price,
+      total: value.item_total ?? value.total ?? Number(price) * Number(value.quantity),
+    };
+  },
+  object<OrderLineItem>({
+    variant_id: optional(string(), ''),
+    name: string(),
+    sku: optional(string(), ''),
+    quantity: number(),
+    price: number(),
+    total: number(),
+  })
+);
+
+const orderAddressSchema = object<OrderAddress>({
+  first_name: optional(string(), ''),
+  last_name: optional(string(), ''),
+  email_address: optional(string(), ''),
+  address: optional(string(), ''),
+  street2: optional(string(), ''),
+  city: optional(string(), ''),
+  state: optional(string(), ''),
+  postal_code: optional(string(), ''),
+  country: optional(string(), ''),
+  telephone: optional(string(), ''),
+});
+
+const paymentReferenceSchema = preprocess(
+  (value) => {
+    if (!isRecord(value)) return value;
+    return {
+      ...value,
+      reference: value.reference ?? value.reference_number,
+      bic: value.bic ?? value.swift_code,
+    };
+  },
+  object<PaymentReference>({
+    reference: optional(string(), ''),
+    account_name: optional(string(), ''),
+    bank_name: optional(string(), ''),
+    account_number: optional(string(), ''),
+    iban: optional(string(), ''),
+    bic: optional(string(), ''),
+    instructions: optional(string(), ''),
+  })
+);
+
+const orderSchema = preprocess(
+  (value) => {
+    if (!isRecord(value)) return value;
+    const shipping = isRecord(value.shipping) ? value.shipping : undefined;
+    return {
+      ...value,
+      date: value.date ?? value.created_time,
+      shipping_method: typeof value.shipping_method === 'string'
+        ? value.shipping_method
+        : value.delivery_method ?? shipping?.name,
+      shipping_charge: value.shipping_charge
+        ?? (shipping ? Number(shipping.rate ?? 0) + Number(shipping.handling_fees ?? 0) : undefined),
+      discount: value.discount ?? value.discount_total,
+      payment_reference: value.payment_reference ?? value.bank_details,
+    };
+  },
+  object<Order>({
+    salesorder_id: string(),
+    salesorder_number: optional(string(), ''),
+    date: optional(string(), ''),
+    status: optional(string(), ''),
+    payment_mode: optional(string(), ''),
+    payment_reference: optional(paymentReferenceSchema, undefined),
+    shipping_method: optional(string(), ''),
+    line_items: optional(array(orderLineItemSchema), []),
+    shipping_address: optional(orderAddressSchema, undefined),
+    billing_address: optional(orderAddressSchema, undefined),
+    sub_total: optional(number(), 0),
+    shipping_charge: optional(number(), 0),
+    tax_total: optional(number(), 0),
+    discount: optional(number(), 0),
+    total: number(),
+    currency_code: optional(string(), ''),
+  })
+);
+
+// The sales order can come back under payload.order, payload.salesorder or as the payload itself
+const findOrder = (value: unknown): unknown => {
+  if (!isRecord(value) || !isRecord(value.payload)) return undefined;
+  const { payload } = value;
+  return payload.order ?? payload.salesorder ?? (payload.salesorder_id ? payload : undefined);
+};
+
+const withOrder = (value: unknown) => {
+  if (!isRecord(value)) return value;
+  const payload = isRecord(value.payload) ? value.payload : {};
+  return { ...value, payload: { ...payload, order: findOrder(value) } };
+};
+
+// Placing an order may answer with just an acknowledgement (e.g. pending payments),
+// so the order is only checked when one is there
+const orderResponseSchema = preprocess(
+  withOrder,
+  object<ConfirmCheckoutResponse>({
+    payload: optional(object<NonNullable<ConfirmCheckoutResponse['payload']>>({
+      order: optional(orderSchema, undefined),
+      order_token: optional(string(), undefined),
+    }), undefined),
+  })
+);
+
+const getOrderResponseSchema = preprocess(
+  withOrder,
+  object<OrderResponse>({
+    payload: object<OrderResponse['payload']>({
+      order: orderSchema,
+    }),
+  })
+);
+
+const PAYMENT_SESSION_STATUSES = ['open', 'paid', 'failed', 'cancelled'];
+
+const paymentSessionResponseSchema = object<PaymentSessionResponse>({
+  payload: object<PaymentSessionResponse['payload']>({
+    session: object<PaymentSession>({
+      session_id: string(),
+      checkout_id: string(),
+      // Anything unexpected is treated as not paid
+      status: preprocess(
+        value => (PAYMENT_SESSION_STATUSES.includes(String(value)) ? value : 'failed'),
+        unknownValue<PaymentSession['status']>()
+      ),
+      amount: number(),
+      currency_code: optional(string(), ''),
+      redirect_url: optional(string(), ''),
+    }),
+    continue_url: optional(string(), undefined),
+  }),
+});
+
+type ResponseSchemas = { [F in WebhookFunctionName]?: Schema<WebhookResponse<F>> };
+
+export const RESPONSE_SCHEMAS: ResponseSchemas = {
+  'get-products': productsResponseSchema,
+  'get-product-detail': productDetailResponseSchema,
+  'get-cart': cartResponseSchema,
+  'apply-coupon': couponResponseSchema,
+  'remove-coupon': couponResponseSchema,
+  'get-checkout-info': checkoutResponseSchema,
+  'add-address': addressResponseSchema,
+  'place-order': orderResponseSchema,
+  'confirm-checkout': orderResponseSchema,
+  'get-order': getOrderResponseSchema,
+  'create-payment-session': paymentSessionResponseSchema,
+  'get-payment-session': paymentSessionResponseSchema,
+  'complete-fake-payment': paymentSessionResponseSchema,
+};
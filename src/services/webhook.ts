@@ -0,0 +1,363 @@
+import type { ProductsResponse } from '../types/product';
+import type {
+  AddToCartRequest,
+  AddToCartResponse,
+  CartItemResponse,
+  CartItemUpdateResponse,
+  CheckoutAddressRequest,
+  CheckoutAddressResponse,
+  CheckoutResponse,
+  CheckoutShippingMethodResponse,
+  ConfirmCheckoutRequest,
+  ConfirmCheckoutResponse,
+  CouponResponse,
+  OrderResponse,
+  PaymentSessionResponse,
+  PaymentSessionStatus,
+  ProcessOfflinePaymentResponse,
+  ProductDetailResponse,
+} from './api';
+import {
+  WebhookAbortedError,
+  WebhookBusinessError,
+  WebhookHttpError,
+  WebhookNetworkError,
+  WebhookPayloadError,
+  WebhookRateLimitError,
+  WebhookTimeoutError,
+  WebhookValidationError,
+} from './errors';
+import { parseSchema } from './schema';
+import { RESPONSE_SCHEMAS } from './schemas';
+
+// Use proxy path to hide webhook URL (works in both dev and production via Vercel)
+const WEBHOOK_URL = '/webhook';
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_READ_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 400;
+// Used when a 429 arrives without a usable Retry-After header
+const DEFAULT_RATE_LIMIT_DELAY_MS = 5000;
+
+// Request and response shapes for every n8n webhook function
+export interface WebhookFunctions {
+  'get-products': {
+    request: { page: number; per_page: number };
+    response: ProductsResponse;
+  };
+  'get-product-detail': {
+    request: { variant_id: string };
+    response: ProductDetailResponse;
+  };
+  'add-to-cart': {
+    request: AddToCartRequest;
+    response: AddToCartResponse;
+  };
+  'get-cart': {
+    request: { cart_id: string };
+    response: CartItemResponse;
+  };
+  'remove-cart-item': {
+    request: { cart_id: string; product_variant_id: string };
+    response: CartItemUpdateResponse;
+  };
+  'update-cart-item': {
+    request: { cart_id: string; product_variant_id: string; quantity: number };
+    response: CartItemUpdateResponse;
+  };
+  'apply-coupon': {
+    request: { cart_id: string; coupon_code: string };
+    response: CouponResponse;
+  };
+  'remove-coupon': {
+    request: { cart_id: string };
+    response: CouponResponse;
+  };
+  'get-checkout-info': {
+    request: { checkout_id: string };
+    response: CheckoutResponse;
+  };
+  'add-address': {
+    request: CheckoutAddressRequest & { checkout_id: string };
+    response: CheckoutAddressResponse;
+  };
+  'add-shipping-methods': {
+    request: { checkout_id: string; shipping: string };
+    response: CheckoutShippingMethodResponse;
+  };
+  'place-order': {
+    request: { checkout_id: string; payment_mode: string };
+    response: ProcessOfflinePaymentResponse;
+  };
+  'confirm-checkout': {
+    request: ConfirmCheckoutRequest;
+    response: ConfirmCheckoutResponse;
+  };
+  'get-order': {
+    request: { salesorder_id: string; order_token: string };
+    response: OrderResponse;
+  };
+  // Card payments; the proxy answers these itself with its payment provider
+  'create-payment-session': {
+    request: { checkout_id: string; payment_mode: string; return_url: string; cancel_url: string };
+    response: PaymentSessionResponse;
+  };
+  'get-payment-session': {
+    request: { session_id: string };
+    response: PaymentSessionResponse;
+  };
+  'complete-fake-payment': {
+    request: { session_id: string; outcome: Exclude<PaymentSessionStatus, 'open'> };
+    response: PaymentSessionResponse;
+  };
+}
+
+export type WebhookFunctionName = keyof WebhookFunctions;
+export type WebhookRequest<F extends WebhookFunctionName> = WebhookFunctions[F]['request'];
+export type WebhookResponse<F extends WebhookFunctionName> = WebhookFunctions[F]['response'];
+
+// One HTTP exchange behind a function: the n8n webhook, or a backend's own endpoint
+export interface FunctionHttpRequest {
+  url: string;
+  method: 'GET' | 'POST';
+  body?: unknown;
+}
+
+export interface WebhookCallOptions {
+  // Cancels the request, e.g. when the calling component unmounts
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  // Defaults to a couple of retries for idempotent reads and none for everything else
+  retries?: number;
+}
+
+// Reads that are safe to repeat when the network hiccups
+const IDEMPOTENT_FUNCTIONS: ReadonlySet<WebhookFunctionName> = new Set<WebhookFunctionName>([
+  'get-products',
+  'get-product-detail',
+  'get-cart',
+  'get-checkout-info',
+  'get-payment-session',
+]);
+
+export const isIdempotentFunction = (functionName: WebhookFunctionName): boolean => {
+  return IDEMPOTENT_FUNCTIONS.has(functionName);
+};
+
+const isRetryable = (error: unknown): boolean => {
+  if (error instanceof WebhookNetworkError || error instanceof WebhookTimeoutError) {
+    return true;
+  }
+  return error instanceof WebhookHttpError && error.status >= 500;
+};
+
+export const wait = (ms: number, functionName: string, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new WebhookAbortedError(functionName));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new WebhookAbortedError(functionName));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (header: string | null): number => {
+  if (!header) return DEFAULT_RATE_LIMIT_DELAY_MS;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? DEFAULT_RATE_LIMIT_DELAY_MS : Math.max(0, date - Date.now());
+};
+
+// Zoho reports success as status_code "0"; anything else is a business failure
+const getBusinessFailure = (data: unknown): { code: string; message?: string } | null => {
+  if (!data || typeof data !== 'object') {
+    return null;
+  }
+  const { status_code: statusCode, status_message: statusMessage } = data as {
+    status_code?: unknown;
+    status_message?: unknown;
+  };
+  if (statusCode === undefined || statusCode === null || String(statusCode) === '0' || statusMessage === 'success') {
+    return null;
+  }
+  return {
+    code: String(statusCode),
+    message: typeof statusMessage === 'string' ? statusMessage : undefined,
+  };
+};
+
+// Turns a decoded response body into the function's normalized response: rejects
+// non-objects and business failures, then validates against the function's schema.
+// Functions without a schema (plain acknowledgements) pass through unchanged.
+export const parseFunctionResponse = <F extends WebhookFunctionName>(functionName: F, data: unknown): WebhookResponse<F> => {
+  if (data === null || typeof data !== 'object') {
+    throw new WebhookPayloadError(functionName, 'The store returned an empty or unexpected response.');
+  }
+
+  const failure = getBusinessFailure(data);
+  if (failure) {
+    throw new WebhookBusinessError(functionName, failure.code, failure.message, data);
+  }
+
+  const schema = RESPONSE_SCHEMAS[functionName];
+  if (!schema) {
+    return data as WebhookResponse<F>;
+  }
+
+  const { value, issues } = parseSchema(schema, data);
+  if (issues.length > 0) {
+    console.error(`Invalid ${functionName} response:`, issues, data);
+    throw new WebhookValidationError(functionName, issues);
+  }
+  return value as WebhookResponse<F>;
+};
+
+const sendOnce = async <F extends WebhookFunctionName>(
+  functionName: F,
+  request: FunctionHttpRequest,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<WebhookResponse<F>> => {
+  if (signal?.aborted) {
+    throw new WebhookAbortedError(functionName);
+  }
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(request.url, {
+        method: request.method,
+        headers: request.body === undefined
+          ? { 'Accept': 'application/json' }
+          : { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+        mode: 'cors',
+        body: request.body === undefined ? undefined : JSON.stringify(request.body),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (timedOut) {
+        throw new WebhookTimeoutError(functionName, timeoutMs);
+      }
+      if (signal?.aborted) {
+        throw new WebhookAbortedError(functionName);
+      }
+      throw new WebhookNetworkError(functionName, { cause: error });
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => response.statusText);
+      if (response.status === 429) {
+        throw new WebhookRateLimitError(functionName, parseRetryAfter(response.headers.get('Retry-After')), errorText);
+      }
+      throw new WebhookHttpError(functionName, response.status, errorText);
+    }
+
+    let data: unknown;
+    try {
+      data = await response.json();
+    } catch (error) {
+      if (timedOut) {
+        throw new WebhookTimeoutError(functionName, timeoutMs);
+      }
+      if (signal?.aborted) {
+        throw new WebhookAbortedError(functionName);
+      }
+      throw new WebhookPayloadError(functionName, 'The store returned a response that could not be read.', { cause: error });
+    }
+
+    return parseFunctionResponse(functionName, data);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+// Timeouts, cancellation, retries and validation for one function call over HTTP
+export const callEndpoint = async <F extends WebhookFunctionName>(
+  functionName: F,
+  request: FunctionHttpRequest,
+  options: WebhookCallOptions = {}
+): Promise<WebhookResponse<F>> => {
+  const {
+    signal,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    retries = isIdempotentFunction(functionName) ? DEFAULT_READ_RETRIES : 0,
+  } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await sendOnce(functionName, request, timeoutMs, signal);
+    } catch (error) {
+      if (attempt >= retries || !isRetryable(error)) {
+        throw error;
+      }
+      // Exponential backoff with jitter so retries from many tabs don't line up
+      const delay = RETRY_BASE_DELAY_MS * 2 ** attempt + Math.random() * RETRY_BASE_DELAY_MS;
+      await wait(delay, functionName, signal);
+    }
+  }
+};
+
+export const callWebhook = <F extends WebhookFunctionName>(
+  functionName: F,
+  body: WebhookRequest<F>,
+  options: WebhookCallOptions = {}
+): Promise<WebhookResponse<F>> => {
+  return callEndpoint(functionName, {
+    url: `${WEBHOOK_URL}?function=${encodeURIComponent(functionName)}`,
+    method: 'POST',
+    body,
+  }, options);
+};
+
+// In-flight shared reads, so components mounting at the same time (or twice in
+// StrictMode) make one request. A caller's signal only stops that caller waiting;
+// the request itself carries on and still fills the caches.
+const sharedRequests = new Map<string, Promise<unknown>>();
+
+export const shareRequest = <T>(
+  key: string,
+  functionName: string,
+  request: () => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> => {
+  const pending = sharedRequests.get(key) as Promise<T> | undefined;
+  const shared = pending || request().finally(() => {
+    sharedRequests.delete(key);
+  });
+  if (!pending) {
+    sharedRequests.set(key, shared);
+  }
+
+  if (!signal) {
+    return shared;
+  }
+  if (signal.aborted) {
+    return Promise.reject(new WebhookAbortedError(functionName));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new WebhookAbortedError(functionName));
+    signal.addEventListener('abort', onAbort, { once: true });
+    shared.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
@@ -0,0 +1,23 @@
+import type { PriceBracket } from './product';
+
+// Cart line item as the app uses it, whatever shape the webhook sent it in
+export interface CartItem {
+  product_id: string;
+  variant_id: string;
+  quantity: number;
+  name: string;
+  price: number;
+  image?: string;
+  // Quantity pricing, so the line can be re-priced as its quantity changes. Always starts at
+  // quantity 1 once in the cart (see normalizeCartItems in CartProvider).
+  price_brackets?: PriceBracket[];
+  // The variant's regular unit price, used below the first bracket
+  base_price?: number;
+}
+
+// Discount code on the cart; the store works out the amount
+export interface AppliedCoupon {
+  code: string;
+  description: string;
+  discount: number;
+}
@@ -0,0 +1,54 @@
+// Placed order as the app uses it, normalized from the Zoho sales order n8n returns
+
+export interface OrderLineItem {
+  variant_id: string;
+  name: string;
+  sku: string;
+  quantity: number;
+  price: number;
+  total: number;
+}
+
+export interface OrderAddress {
+  first_name: string;
+  last_name: string;
+  email_address: string;
+  address: string;
+  street2: string;
+  city: string;
+  state: string;
+  postal_code: string;
+  country: string;
+  telephone: string;
+}
+
+// Where to send an offline payment; bank transfers quote the reference
+export interface PaymentReference {
+  reference: string;
+  account_name: string;
+  bank_name: string;
+  account_number: string;
+  iban: string;
+  bic: string;
+  instructions: string;
+}
+
+export interface Order {
+  salesorder_id: string;
+  salesorder_number: string;
+  date: string;
+  status: string;
+  payment_mode: string;
+  payment_reference?: PaymentReference;
+  // Name of the chosen shipping method; empty when nothing ships
+  shipping_method: string;
+  line_items: OrderLineItem[];
+  shipping_address?: OrderAddress;
+  billing_address?: OrderAddress;
+  sub_total: number;
+  shipping_charge: number;
+  tax_total: number;
+  discount: number;
+  total: number;
+  currency_code: string;
+}
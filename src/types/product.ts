@@ -8,6 +8,32 @@ export interface ProductImage {
   order: number;
 }
 
+export interface ProductAttributeOption {
+  id: string;
+  name: string;
+}
+
+export interface ProductAttribute {
+  id: string;
+  name: string;
+  options: ProductAttributeOption[];
+}
+
+// One attribute value a variant is made of, e.g. { name: 'Strength', value: '500mg' }
+export interface VariantOption {
+  id: string;
+  name: string;
+  value: string;
+  attribute_id?: string;
+}
+
+// Unit price when buying at least start_quantity; no end_quantity means "and up"
+export interface PriceBracket {
+  start_quantity: number;
+  end_quantity?: number;
+  price: number;
+}
+
 export interface ProductVariant {
   selling_price: number;
   is_combo_product: boolean;
@@ -24,7 +50,7 @@ export interface ProductVariant {
   ean: string;
   show_add_to_quote: boolean;
   hsn_or_sac: string;
-  options: any[];
+  options: VariantOption[];
   is_returnable: boolean;
   sku: string;
   is_deliverable: boolean;
@@ -34,7 +60,7 @@ export interface ProductVariant {
   upc: string;
   mpn: string;
   double_stock_available: number;
-  price_brackets: any[];
+  price_brackets: PriceBracket[];
   product_type: string;
 }
 
@@ -42,7 +68,7 @@ export interface Product {
   selling_price: number;
   short_description: string;
   review_id: string;
-  documents: any[];
+  documents: unknown[];
   description: string;
   is_out_of_stock: boolean;
   label_price: number;
@@ -54,6 +80,8 @@ export interface Product {
   is_available_for_purchase: boolean;
   is_product_custom_fields_enabled: boolean;
   category_id: string;
+  // Shown in the catalog filters; Zoho's category ids are opaque
+  category_name: string;
   product_id: string;
   quick_look_url: string;
   is_returnable: boolean;
@@ -68,21 +96,30 @@ export interface Product {
   is_product_price_brackets_available: boolean;
   is_input_custom_field_available: boolean;
   has_variant_price: boolean;
-  specification_group: any[];
+  specification_group: unknown[];
   has_variants: boolean;
   handle: string;
   is_product_review_enabled: boolean;
   url: string;
-  tags: any[];
+  tags: string[];
   is_stock_managed: boolean;
   ends_with: number;
   unit: string;
   name: string;
   is_social_share_enabled: boolean;
-  attributes: any[];
+  attributes: ProductAttribute[];
   status: boolean;
 }
 
+export interface StoreCurrency {
+  symbol: string;
+  code: string;
+  symbol_formatted: string;
+  code_on_left: boolean;
+  format: string;
+  symbol_on_left: boolean;
+}
+
 export interface ProductsResponse {
   status_message: string;
   status_code: string;
@@ -93,14 +130,7 @@ export interface ProductsResponse {
       has_more_page: boolean;
       current_page: number;
     };
-    currency: {
-      symbol: string;
-      code: string;
-      symbol_formatted: string;
-      code_on_left: boolean;
-      format: string;
-      symbol_on_left: boolean;
-    };
+    currency: StoreCurrency;
     page: {
       title: string;
       site_title: string;
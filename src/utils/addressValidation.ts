@@ -0,0 +1,210 @@
+// Client-side checks for checkout addresses, run before anything is sent to the store.
+// Rules are keyed by country code; countries without an entry get the generic checks.
+
+import type { CheckoutAddress, Country } from '../services/api'
+import { MAX_PHONE_DIGITS, splitPhoneNumber } from './phoneNumber'
+
+export type AddressField = Exclude<keyof CheckoutAddress, 'same_billing_address'>
+
+export type AddressErrors = Partial<Record<AddressField, string>>
+
+interface PostalCodeRule {
+  pattern: RegExp
+  example: string
+  // Canonical spelling sent to the store, e.g. "K1A 0B1"
+  format?: (value: string) => string
+}
+
+interface CountryRule {
+  // null when the country doesn't use postal codes
+  postalCode?: PostalCodeRule | null
+  // Defaults to whether countries.json lists states for the country
+  stateRequired?: boolean
+  // Digits in the national number, without the trunk prefix
+  phoneDigits?: [number, number]
+  // Italian numbers keep their leading 0 after the country code
+  keepTrunkZero?: boolean
+}
+
+// Insert a space before the last `tail` characters: "k1a0b1" -> "K1A 0B1"
+const spaced = (tail: number) => (value: string) => {
+  const compact = value.replace(/\s+/g, '').toUpperCase()
+  return `${compact.slice(0, -tail)} ${compact.slice(-tail)}`
+}
+
+const FIVE_DIGITS: PostalCodeRule = { pattern: /^\d{5}$/, example: '12345' }
+
+export const COUNTRY_RULES: Record<string, CountryRule> = {
+  US: { postalCode: { pattern: /^\d{5}(-\d{4})?$/, example: '94105 or 94105-1234' }, phoneDigits: [10, 10] },
+  CA: {
+    postalCode: { pattern: /^[ABCEGHJ-NPRSTVXY]\d[A-Z] ?\d[A-Z]\d$/i, example: 'K1A 0B1', format: spaced(3) },
+    phoneDigits: [10, 10],
+  },
+  GB: {
+    postalCode: { pattern: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/i, example: 'SW1A 1AA', format: spaced(3) },
+    phoneDigits: [9, 10],
+  },
+  IE: {
+    postalCode: { pattern: /^[A-Z]\d[\dW] ?[A-Z\d]{4}$/i, example: 'D02 X285', format: spaced(4) },
+    stateRequired: false,
+    phoneDigits: [7, 9],
+  },
+  IN: { postalCode: { pattern: /^[1-9]\d{5}$/, example: '560001' }, phoneDigits: [10, 10] },
+  AU: { postalCode: { pattern: /^\d{4}$/, example: '2000' }, phoneDigits: [9, 9] },
+  NZ: { postalCode: { pattern: /^\d{4}$/, example: '6011' }, stateRequired: false, phoneDigits: [8, 10] },
+  DE: { postalCode: FIVE_DIGITS, stateRequired: false, phoneDigits: [6, 13] },
+  FR: { postalCode: FIVE_DIGITS, stateRequired: false, phoneDigits: [9, 9] },
+  ES: { postalCode: FIVE_DIGITS, stateRequired: false, phoneDigits: [9, 9] },
+  IT: { postalCode: FIVE_DIGITS, stateRequired: false, phoneDigits: [6, 11], keepTrunkZero: true },
+  NL: {
+    postalCode: { pattern: /^\d{4} ?[A-Z]{2}$/i, example: '1012 AB', format: spaced(2) },
+    stateRequired: false,
+    phoneDigits: [9, 9],
+  },
+  MX: { postalCode: FIVE_DIGITS, phoneDigits: [10, 10] },
+  BR: { postalCode: { pattern: /^\d{5}-?\d{3}$/, example: '01310-100' }, phoneDigits: [10, 11] },
+  JP: { postalCode: { pattern: /^\d{3}-?\d{4}$/, example: '100-0001' }, phoneDigits: [9, 10] },
+  CN: { postalCode: { pattern: /^\d{6}$/, example: '100000' }, phoneDigits: [10, 11] },
+  SG: { postalCode: { pattern: /^\d{6}$/, example: '018956' }, stateRequired: false, phoneDigits: [8, 8] },
+  AE: { postalCode: null, phoneDigits: [8, 9] },
+  HK: { postalCode: null, stateRequired: false, phoneDigits: [8, 8] },
+  QA: { postalCode: null, stateRequired: false, phoneDigits: [8, 8] },
+}
+
+const REQUIRED_FIELDS: Array<[AddressField, string]> = [
+  ['first_name', 'First name'],
+  ['last_name', 'Last name'],
+  ['email_address', 'Email address'],
+  ['telephone', 'Telephone'],
+  ['address', 'Address'],
+  ['city', 'City'],
+  ['country', 'Country'],
+]
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// Shortest international number worth sending; the longest is MAX_PHONE_DIGITS
+const MIN_PHONE_DIGITS = 8
+
+export const findCountry = (countries: Country[], code: string): Country | undefined => {
+  return countries.find(country => country.code === code)
+}
+
+export const isStateRequired = (country: Country | undefined): boolean => {
+  if (!country) return false
+  return COUNTRY_RULES[country.code]?.stateRequired ?? country.states.length > 0
+}
+
+export const isPostalCodeRequired = (countryCode: string): boolean => {
+  return COUNTRY_RULES[countryCode]?.postalCode !== null
+}
+
+// The phone number in E.164 ("+14165550123"), or null if it can't be one.
+// National numbers get the country's dial code; "+" and "00" numbers are kept international.
+export const normalizePhone = (telephone: string, country: Country | undefined): string | null => {
+  const cleaned = telephone.trim().replace(/[\s().-]/g, '')
+  if (!/^(\+|00)?\d+$/.test(cleaned)) {
+    return null
+  }
+
+  const dialCode = (country?.mobile_code || '').replace(/\D/g, '')
+  const rule = country ? COUNTRY_RULES[country.code] : undefined
+  let national: string
+
+  if (cleaned.startsWith('+') || cleaned.startsWith('00')) {
+    const digits = cleaned.replace(/^(\+|00)/, '')
+    if (!dialCode || !digits.startsWith(dialCode)) {
+      // A foreign number: only the overall length can be checked
+      return digits.length >= MIN_PHONE_DIGITS && digits.length <= MAX_PHONE_DIGITS ? `+${digits}` : null
+    }
+    national = digits.slice(dialCode.length)
+  } else if (!dialCode) {
+    return null
+  } else if (dialCode === '1' && cleaned.length === 11 && cleaned.startsWith('1')) {
+    national = cleaned.slice(1)
+  } else {
+    national = cleaned
+  }
+
+  if (!rule?.keepTrunkZero) {
+    national = national.replace(/^0/, '')
+  }
+
+  if (rule?.phoneDigits) {
+    const [min, max] = rule.phoneDigits
+    if (national.length < min || national.length > max) return null
+  }
+
+  const digits = dialCode + national
+  return digits.length >= MIN_PHONE_DIGITS && digits.length <= MAX_PHONE_DIGITS ? `+${digits}` : null
+}
+
+// The number is checked against its dial code's country, which may not be the address's
+const phoneCountry = (address: CheckoutAddress, countries: Country[]): Country | undefined => {
+  const country = findCountry(countries, address.country)
+  return splitPhoneNumber(address.telephone, countries, country).country ?? country
+}
+
+export const validateAddress = (address: CheckoutAddress, countries: Country[]): AddressErrors => {
+  const errors: AddressErrors = {}
+  const country = findCountry(countries, address.country)
+  const dialCountry = phoneCountry(address, countries)
+  const rule = COUNTRY_RULES[address.country]
+
+  for (const [field, label] of REQUIRED_FIELDS) {
+    if (!address[field].trim()) {
+      errors[field] = `${label} is required`
+    }
+  }
+
+  if (!errors.email_address && !EMAIL_PATTERN.test(address.email_address.trim())) {
+    errors.email_address = 'Enter a valid email address'
+  }
+
+  if (address.country && !country) {
+    errors.country = 'Select a country from the list'
+  }
+
+  if (isStateRequired(country) && !address.state.trim()) {
+    errors.state = country?.states.length ? 'Select a state or province' : 'State is required'
+  } else if (country?.states.length && address.state && !country.states.some(state => state.code === address.state)) {
+    errors.state = `Select a state or province in ${country.name}`
+  }
+
+  const postalCode = address.postal_code.trim()
+  if (isPostalCodeRequired(address.country)) {
+    if (!postalCode) {
+      errors.postal_code = 'Postal code is required'
+    } else if (rule?.postalCode && !rule.postalCode.pattern.test(postalCode)) {
+      errors.postal_code = `Enter a valid postal code, e.g. ${rule.postalCode.example}`
+    }
+  }
+
+  if (!errors.telephone && dialCountry && !normalizePhone(address.telephone, dialCountry)) {
+    errors.telephone = `Enter a valid phone number for ${dialCountry.name} (dial code ${dialCountry.mobile_code})`
+  }
+
+  return errors
+}
+
+// The address as the store should receive it: trimmed, canonical postal code, E.164 phone.
+// Only call this on an address that passed validateAddress.
+export const normalizeAddress = (address: CheckoutAddress, countries: Country[]): CheckoutAddress => {
+  const postalRule = COUNTRY_RULES[address.country]?.postalCode
+  const postalCode = address.postal_code.trim()
+
+  return {
+    ...address,
+    first_name: address.first_name.trim(),
+    last_name: address.last_name.trim(),
+    email_address: address.email_address.trim(),
+    address: address.address.trim(),
+    street2: address.street2.trim(),
+    city: address.city.trim(),
+    state: address.state.trim(),
+    postal_code: postalRule?.format ? postalRule.format(postalCode) : postalCode.toUpperCase(),
+    telephone: normalizePhone(address.telephone, phoneCountry(address, countries)) ?? address.telephone.trim(),
+  }
+}
+
+export const hasAddressErrors = (errors: AddressErrors): boolean => Object.keys(errors).length > 0
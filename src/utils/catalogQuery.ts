@@ -0,0 +1,168 @@
+// Catalog search, filter and sort state, stored in the URL query string
+
+import type { Product } from '../types/product'
+
+export type CatalogSort = 'featured' | 'price-asc' | 'price-desc' | 'name-asc' | 'name-desc' | 'sale'
+
+export const CATALOG_SORT_OPTIONS: Array<{ value: CatalogSort; label: string }> = [
+  { value: 'featured', label: 'Featured' },
+  { value: 'price-asc', label: 'Price: Low to High' },
+  { value: 'price-desc', label: 'Price: High to Low' },
+  { value: 'name-asc', label: 'Name: A to Z' },
+  { value: 'name-desc', label: 'Name: Z to A' },
+  { value: 'sale', label: 'On Sale First' },
+]
+
+export interface CatalogQuery {
+  search: string
+  brands: string[]
+  manufacturers: string[]
+  categories: string[]
+  onSale: boolean
+  inStock: boolean
+  minPrice: number | null
+  maxPrice: number | null
+  sort: CatalogSort
+}
+
+export interface CatalogFacet {
+  value: string
+  // What shoppers see; the value itself for brands and manufacturers
+  label: string
+  count: number
+}
+
+export interface CatalogFacets {
+  brands: CatalogFacet[]
+  manufacturers: CatalogFacet[]
+  categories: CatalogFacet[]
+  minPrice: number
+  maxPrice: number
+}
+
+const parsePrice = (value: string | null): number | null => {
+  if (value === null || value.trim() === '') {
+    return null
+  }
+  const price = Number(value)
+  return Number.isFinite(price) && price >= 0 ? price : null
+}
+
+export const parseCatalogQuery = (params: URLSearchParams): CatalogQuery => {
+  const sort = params.get('sort') as CatalogSort | null
+  return {
+    search: params.get('q') || '',
+    brands: params.getAll('brand'),
+    manufacturers: params.getAll('manufacturer'),
+    categories: params.getAll('category'),
+    onSale: params.get('on_sale') === '1',
+    inStock: params.get('in_stock') === '1',
+    minPrice: parsePrice(params.get('min_price')),
+    maxPrice: parsePrice(params.get('max_price')),
+    sort: CATALOG_SORT_OPTIONS.some(option => option.value === sort) ? (sort as CatalogSort) : 'featured',
+  }
+}
+
+// Only non-default values are written so shared URLs stay short
+export const toCatalogSearchParams = (query: CatalogQuery): URLSearchParams => {
+  const params = new URLSearchParams()
+  if (query.search.trim()) params.set('q', query.search)
+  query.brands.forEach(brand => params.append('brand', brand))
+  query.manufacturers.forEach(manufacturer => params.append('manufacturer', manufacturer))
+  query.categories.forEach(category => params.append('category', category))
+  if (query.onSale) params.set('on_sale', '1')
+  if (query.inStock) params.set('in_stock', '1')
+  if (query.minPrice !== null) params.set('min_price', String(query.minPrice))
+  if (query.maxPrice !== null) params.set('max_price', String(query.maxPrice))
+  if (query.sort !== 'featured') params.set('sort', query.sort)
+  return params
+}
+
+export const isCatalogQueryActive = (query: CatalogQuery): boolean => {
+  return toCatalogSearchParams({ ...query, sort: 'featured' }).toString() !== ''
+}
+
+const matchesSearch = (product: Product, search: string): boolean => {
+  const terms = search.toLowerCase().split(/\s+/).filter(Boolean)
+  if (terms.length === 0) {
+    return true
+  }
+
+  const haystack = [
+    product.name,
+    product.short_description,
+    product.brand,
+    product.manufacturer,
+    ...(product.variants || []).map(variant => variant.sku),
+  ]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase()
+
+  return terms.every(term => haystack.includes(term))
+}
+
+export const filterProducts = (products: Product[], query: CatalogQuery): Product[] => {
+  return products.filter(product => {
+    if (!matchesSearch(product, query.search)) return false
+    if (query.brands.length > 0 && !query.brands.includes(product.brand)) return false
+    if (query.manufacturers.length > 0 && !query.manufacturers.includes(product.manufacturer)) return false
+    if (query.categories.length > 0 && !query.categories.includes(product.category_id)) return false
+    if (query.onSale && !product.on_sale) return false
+    if (query.inStock && product.is_out_of_stock) return false
+    if (query.minPrice !== null && product.selling_price < query.minPrice) return false
+    if (query.maxPrice !== null && product.selling_price > query.maxPrice) return false
+    return true
+  })
+}
+
+export const sortProducts = (products: Product[], sort: CatalogSort): Product[] => {
+  // 'featured' keeps the store's own ordering
+  if (sort === 'featured') {
+    return products
+  }
+
+  const sorted = [...products]
+  switch (sort) {
+    case 'price-asc':
+      return sorted.sort((a, b) => a.selling_price - b.selling_price)
+    case 'price-desc':
+      return sorted.sort((a, b) => b.selling_price - a.selling_price)
+    case 'name-asc':
+      return sorted.sort((a, b) => a.name.localeCompare(b.name))
+    case 'name-desc':
+      return sorted.sort((a, b) => b.name.localeCompare(a.name))
+    case 'sale':
+      return sorted.sort((a, b) => Number(b.on_sale) - Number(a.on_sale))
+  }
+}
+
+const countValues = (values: string[], labels: Map<string, string> = new Map()): CatalogFacet[] => {
+  const counts = new Map<string, number>()
+  values.filter(Boolean).forEach(value => counts.set(value, (counts.get(value) || 0) + 1))
+  return Array.from(counts.entries())
+    .map(([value, count]) => ({ value, label: labels.get(value) || value, count }))
+    .sort((a, b) => a.label.localeCompare(b.label))
+}
+
+// Category ids to the names products carry; the first product naming a category wins
+const categoryNames = (products: Product[]): Map<string, string> => {
+  const names = new Map<string, string>()
+  for (const product of products) {
+    if (product.category_id && product.category_name && !names.has(product.category_id)) {
+      names.set(product.category_id, product.category_name)
+    }
+  }
+  return names
+}
+
+export const getCatalogFacets = (products: Product[]): CatalogFacets => {
+  const prices = products.map(product => product.selling_price)
+  return {
+    brands: countValues(products.map(product => product.brand)),
+    manufacturers: countValues(products.map(product => product.manufacturer)),
+    categories: countValues(products.map(product => product.category_id), categoryNames(products)),
+    minPrice: prices.length > 0 ? Math.floor(Math.min(...prices)) : 0,
+    maxPrice: prices.length > 0 ? Math.ceil(Math.max(...prices)) : 0,
+  }
+}
@@ -0,0 +1,200 @@
+// Checkout wizard steps and the progress saved per cart in sessionStorage, so a
+// reload resumes where the customer left off
+
+import type { CheckoutAddress, PaymentMode, ShippingMethod } from '../services/api'
+import {
+  array,
+  boolean,
+  number,
+  object,
+  optional,
+  parseSchema,
+  string,
+  unknownValue,
+  type Schema,
+} from '../services/schema'
+
+export type CheckoutStepId = 'address' | 'shipping' | 'payment' | 'review'
+
+export interface CheckoutStep {
+  id: CheckoutStepId
+  label: string
+  path: string
+}
+
+export const CHECKOUT_STEPS: CheckoutStep[] = [
+  { id: 'address', label: 'Address', path: '/checkout/address' },
+  { id: 'shipping', label: 'Shipping', path: '/checkout/shipping' },
+  { id: 'payment', label: 'Payment', path: '/checkout/payment' },
+  { id: 'review', label: 'Review', path: '/checkout/review' },
+]
+
+export interface CheckoutProgress {
+  shippingAddress: CheckoutAddress
+  billingAddress: CheckoutAddress
+  sameBillingAddress: boolean
+  // Offered by the store once the address was accepted
+  shippingMethods: ShippingMethod[]
+  shippingMethodId: string
+  // Offered by the store on the payment step
+  paymentModes: PaymentMode[]
+  paymentMode: string
+  completedSteps: CheckoutStepId[]
+}
+
+export const EMPTY_ADDRESS: CheckoutAddress = {
+  first_name: '',
+  last_name: '',
+  email_address: '',
+  address: '',
+  street2: '',
+  city: '',
+  state: '',
+  postal_code: '',
+  telephone: '',
+  country: '',
+  same_billing_address: true,
+}
+
+export const createCheckoutProgress = (): CheckoutProgress => ({
+  shippingAddress: EMPTY_ADDRESS,
+  billingAddress: EMPTY_ADDRESS,
+  sameBillingAddress: true,
+  shippingMethods: [],
+  shippingMethodId: '',
+  paymentModes: [],
+  paymentMode: '',
+  completedSteps: [],
+})
+
+const STORAGE_PREFIX = 'activepharm-checkout:'
+
+const addressSchema: Schema<CheckoutAddress> = object<CheckoutAddress>({
+  first_name: optional(string(), ''),
+  last_name: optional(string(), ''),
+  email_address: optional(string(), ''),
+  address: optional(string(), ''),
+  street2: optional(string(), ''),
+  city: optional(string(), ''),
+  state: optional(string(), ''),
+  postal_code: optional(string(), ''),
+  telephone: optional(string(), ''),
+  country: optional(string(), ''),
+  same_billing_address: optional(boolean(), true),
+})
+
+const progressSchema: Schema<CheckoutProgress> = object<CheckoutProgress>({
+  shippingAddress: addressSchema,
+  billingAddress: addressSchema,
+  sameBillingAddress: optional(boolean(), true),
+  shippingMethods: optional(array(object<ShippingMethod>({
+    id: string(),
+    name: string(),
+    rate: number(),
+    handling_fees: optional(number(), 0),
+    delivery_time: optional(string(), ''),
+    is_default: optional(boolean(), false),
+  })), []),
+  shippingMethodId: optional(string(), ''),
+  paymentModes: optional(array(object<PaymentMode>({
+    id: string(),
+    label: string(),
+    description: optional(string(), ''),
+    instructions: optional(string(), ''),
+    offline: optional(boolean(), false),
+    hosted: optional(boolean(), false),
+  })), []),
+  paymentMode: optional(string(), ''),
+  completedSteps: optional(array(unknownValue<CheckoutStepId>()), []),
+})
+
+const isStepId = (value: unknown): value is CheckoutStepId => {
+  return CHECKOUT_STEPS.some(step => step.id === value)
+}
+
+export const loadCheckoutProgress = (cartId: string): CheckoutProgress => {
+  try {
+    const raw = sessionStorage.getItem(STORAGE_PREFIX + cartId)
+    if (!raw) {
+      return createCheckoutProgress()
+    }
+
+    const { value, issues } = parseSchema(progressSchema, JSON.parse(raw))
+    if (issues.length > 0) {
+      console.warn('Discarding saved checkout progress:', issues)
+      return createCheckoutProgress()
+    }
+    return { ...value, completedSteps: value.completedSteps.filter(isStepId) }
+  } catch (error) {
+    console.warn('Could not read saved checkout progress:', error)
+    return createCheckoutProgress()
+  }
+}
+
+export const saveCheckoutProgress = (cartId: string, progress: CheckoutProgress): void => {
+  try {
+    sessionStorage.setItem(STORAGE_PREFIX + cartId, JSON.stringify(progress))
+  } catch (error) {
+    console.warn('Could not save checkout progress:', error)
+  }
+}
+
+export const clearCheckoutProgress = (cartId: string): void => {
+  try {
+    sessionStorage.removeItem(STORAGE_PREFIX + cartId)
+  } catch (error) {
+    console.warn('Could not clear checkout progress:', error)
+  }
+}
+
+// Where /checkout resumes: the first step not yet completed
+export const firstIncompleteStep = (completedSteps: CheckoutStepId[]): CheckoutStep => {
+  return CHECKOUT_STEPS.find(step => !completedSteps.includes(step.id)) ?? CHECKOUT_STEPS[CHECKOUT_STEPS.length - 1]
+}
+
+// A step is reachable once every step before it has been completed
+export const canVisitStep = (stepId: CheckoutStepId, completedSteps: CheckoutStepId[]): boolean => {
+  const index = CHECKOUT_STEPS.findIndex(step => step.id === stepId)
+  return CHECKOUT_STEPS.slice(0, index).every(step => completedSteps.includes(step.id))
+}
+
+// Steps up to and including `stepId`, in wizard order
+export const stepsThrough = (stepId: CheckoutStepId): CheckoutStepId[] => {
+  const index = CHECKOUT_STEPS.findIndex(step => step.id === stepId)
+  return CHECKOUT_STEPS.slice(0, index + 1).map(step => step.id)
+}
+
+// Offered when the store's checkout doesn't list its payment modes
+export const PAYMENT_MODES: PaymentMode[] = [
+  {
+    id: 'cash_on_delivery',
+    label: 'Cash on Delivery',
+    description: 'Pay when your order arrives.',
+    instructions: 'Have the exact amount ready for the courier.',
+    offline: false,
+    hosted: false,
+  },
+  {
+    id: 'bank_transfer',
+    label: 'Bank Transfer',
+    description: 'Pay from your bank account after placing the order.',
+    instructions: 'The bank details and your payment reference are shown on the order confirmation. '
+      + 'We ship once the transfer arrives.',
+    offline: true,
+    hosted: false,
+  },
+  {
+    id: 'cheque',
+    label: 'Cheque',
+    description: 'Post a cheque after placing the order.',
+    instructions: 'Make the cheque payable to ActivePharm and write your order number on the back. '
+      + 'We ship once it has cleared.',
+    offline: true,
+    hosted: false,
+  },
+]
+
+// The chosen mode, from the store's list or the defaults
+export const findPaymentMode = (modes: PaymentMode[], id: string): PaymentMode | undefined => {
+  return modes.find(mode => mode.id === id) ?? PAYMENT_MODES.find(mode => mode.id === id)
+}
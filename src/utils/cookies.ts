@@ -34,13 +34,3 @@ export const deleteCartId = (): void => {
   deleteCookie('cart_id')
 }
 
-// CartItem interface for type definitions (used by API responses)
-export interface CartItem {
-  product_id: string;
-  variant_id: string;
-  quantity: number;
-  name?: string;
-  price?: number;
-  image?: string;
-}
-
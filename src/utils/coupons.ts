@@ -0,0 +1,31 @@
+// Turns the store's discount code failures into messages for the code field
+
+// The webhook proxy maps the store's own failure codes onto these (see api/_lib/coupons.ts)
+import { COUPON_EXPIRED, COUPON_INVALID, COUPON_MINIMUM_SPEND } from '../../api/_lib/coupons'
+import { WebhookBusinessError } from '../services/errors'
+import { isRecord } from '../services/schema'
+
+// Zoho may send the threshold as payload.minimum_amount or payload.minimum_order_value
+const minimumAmount = (response: unknown): number | null => {
+  if (!isRecord(response) || !isRecord(response.payload)) return null
+  const value = Number(response.payload.minimum_amount ?? response.payload.minimum_order_value)
+  return Number.isFinite(value) && value > 0 ? value : null
+}
+
+export const describeCouponError = (err: unknown, formatPrice: (amount: number) => string): string => {
+  if (err instanceof WebhookBusinessError) {
+    switch (err.statusCode) {
+      case COUPON_INVALID:
+        return "That code isn't valid. Check it and try again."
+      case COUPON_EXPIRED:
+        return 'That code has expired.'
+      case COUPON_MINIMUM_SPEND: {
+        const minimum = minimumAmount(err.response)
+        return minimum === null
+          ? "Your order doesn't reach the minimum spend for this code yet."
+          : `Spend at least ${formatPrice(minimum)} on items to use this code.`
+      }
+    }
+  }
+  return err instanceof Error ? err.message : 'The code could not be applied'
+}
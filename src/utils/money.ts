@@ -0,0 +1,104 @@
+// Money formatting driven by the store currency from the products response
+
+import type { StoreCurrency } from '../types/product'
+
+export const DEFAULT_CURRENCY: StoreCurrency = {
+  symbol: '$',
+  code: 'USD',
+  symbol_formatted: '$',
+  code_on_left: false,
+  format: '1,234,567.89',
+  symbol_on_left: true,
+}
+
+interface NumberPattern {
+  decimals: number
+  decimalSeparator: string
+  groupSeparator: string
+  // Size of the group closest to the decimal point, then of every group after it
+  primaryGroup: number
+  secondaryGroup: number
+}
+
+const DEFAULT_PATTERN: NumberPattern = {
+  decimals: 2,
+  decimalSeparator: '.',
+  groupSeparator: ',',
+  primaryGroup: 3,
+  secondaryGroup: 3,
+}
+
+const patternCache = new Map<string, NumberPattern>()
+
+// Zoho describes the number format by example, e.g. "1,234,567.89", "1.234.567,89" or "1,23,45,678.90"
+export const parseNumberFormat = (format: string | undefined): NumberPattern => {
+  if (!format) {
+    return DEFAULT_PATTERN
+  }
+
+  const cached = patternCache.get(format)
+  if (cached) {
+    return cached
+  }
+
+  const parts = format.match(/\d+|[^\d]+/g) || []
+  const digitGroups = parts.filter(part => /^\d+$/.test(part))
+  const separators = parts.filter(part => !/^\d+$/.test(part))
+
+  let pattern = DEFAULT_PATTERN
+  if (digitGroups.length > 0) {
+    // A trailing separator followed by anything but a 3-digit group marks the decimals
+    const lastSeparator = separators[separators.length - 1]
+    const lastGroup = digitGroups[digitGroups.length - 1]
+    const hasDecimals = digitGroups.length > 1 &&
+      (lastGroup.length !== 3 || (separators.length > 1 && lastSeparator !== separators[0]))
+    const integerGroups = hasDecimals ? digitGroups.slice(0, -1) : digitGroups
+
+    pattern = {
+      decimals: hasDecimals ? lastGroup.length : 0,
+      decimalSeparator: hasDecimals ? lastSeparator : DEFAULT_PATTERN.decimalSeparator,
+      groupSeparator: integerGroups.length > 1 ? separators[0] : '',
+      primaryGroup: integerGroups.length > 1 ? integerGroups[integerGroups.length - 1].length : 3,
+      secondaryGroup: integerGroups.length > 2 ? integerGroups[integerGroups.length - 2].length : 3,
+    }
+  }
+
+  patternCache.set(format, pattern)
+  return pattern
+}
+
+const groupDigits = (digits: string, pattern: NumberPattern): string => {
+  if (!pattern.groupSeparator || digits.length <= pattern.primaryGroup) {
+    return digits
+  }
+
+  const groups = [digits.slice(-pattern.primaryGroup)]
+  let rest = digits.slice(0, -pattern.primaryGroup)
+  while (rest.length > pattern.secondaryGroup) {
+    groups.unshift(rest.slice(-pattern.secondaryGroup))
+    rest = rest.slice(0, -pattern.secondaryGroup)
+  }
+  if (rest) {
+    groups.unshift(rest)
+  }
+  return groups.join(pattern.groupSeparator)
+}
+
+export const formatAmount = (amount: number, currency: StoreCurrency = DEFAULT_CURRENCY): string => {
+  const pattern = parseNumberFormat(currency.format)
+  const value = Number.isFinite(amount) ? Math.abs(amount) : 0
+  const [integerPart, fractionPart] = value.toFixed(pattern.decimals).split('.')
+  const grouped = groupDigits(integerPart, pattern)
+  return fractionPart ? `${grouped}${pattern.decimalSeparator}${fractionPart}` : grouped
+}
+
+export const formatMoney = (amount: number, currency: StoreCurrency = DEFAULT_CURRENCY): string => {
+  const sign = amount < 0 ? '-' : ''
+  const number = formatAmount(amount, currency)
+  const symbol = currency.symbol
+
+  if (symbol) {
+    return currency.symbol_on_left ? `${sign}${symbol}${number}` : `${sign}${number} ${symbol}`
+  }
+  return currency.code_on_left ? `${sign}${currency.code} ${number}` : `${sign}${number} ${currency.code}`
+}
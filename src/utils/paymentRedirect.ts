@@ -0,0 +1,15 @@
+import type { NavigateFunction } from 'react-router-dom'
+
+export const PAYMENT_RETURN_PATH = '/checkout/payment/return'
+export const PAYMENT_CANCEL_PATH = '/checkout/payment/cancel'
+
+// Hosted payment pages usually live on the provider's site. Same-origin ones (the fake
+// gateway) stay inside the app, so in-memory state like the in-browser mock backend survives.
+export const followPaymentRedirect = (url: string, navigate: NavigateFunction) => {
+  const target = new URL(url, window.location.origin)
+  if (target.origin === window.location.origin) {
+    navigate(`${target.pathname}${target.search}`)
+  } else {
+    window.location.assign(target.toString())
+  }
+}
@@ -0,0 +1,112 @@
+// Phone numbers are kept as "<dial code> <national number>", e.g. "+1 416 555 0123",
+// so the dial code picked in the form survives reloads of the checkout progress.
+
+import type { Country } from '../services/api'
+
+export interface PhoneParts {
+  country: Country | undefined
+  // Digits only, as typed after the dial code
+  national: string
+}
+
+// E.164 allows at most 15 digits after the "+"
+export const MAX_PHONE_DIGITS = 15
+
+// Digit groups for countries whose numbers have a fixed shape
+const GROUPS: Record<string, number[]> = {
+  '1': [3, 3, 4],
+  '33': [1, 2, 2, 2, 2],
+  '91': [5, 5],
+}
+
+// Who gets a dial code that several countries in countries.json share
+const DIAL_CODE_OWNERS: Record<string, string> = {
+  '1': 'US',
+  '7': 'RU',
+  '33': 'FR',
+  '44': 'GB',
+  '47': 'NO',
+  '61': 'AU',
+  '64': 'NZ',
+  '212': 'MA',
+  '252': 'SO',
+  '262': 'RE',
+  '358': 'FI',
+  '500': 'FK',
+  '503': 'SV',
+  '590': 'GP',
+  '599': 'CW',
+  '672': 'NF',
+}
+
+export const dialDigits = (country: Country | undefined): string => (country?.mobile_code || '').replace(/\D/g, '')
+
+// A shared dial code (US and CA, GB and JE...) goes to `preferred`, then to its owner
+const countryForDigits = (digits: string, countries: Country[], preferred?: Country): Country | undefined => {
+  const preferredDial = dialDigits(preferred)
+  if (preferredDial && digits.startsWith(preferredDial)) return preferred
+
+  let match: Country | undefined
+  for (const country of countries) {
+    const dial = dialDigits(country)
+    if (!dial || !digits.startsWith(dial)) continue
+    const longer = dial.length > dialDigits(match).length
+    if (longer || (dial === dialDigits(match) && DIAL_CODE_OWNERS[dial] === country.code)) {
+      match = country
+    }
+  }
+  return match
+}
+
+// Split a stored number into its dial country and national digits.
+// Numbers without a "+" (older saved addresses) are national numbers of `preferred`.
+export const splitPhoneNumber = (value: string, countries: Country[], preferred?: Country): PhoneParts => {
+  const trimmed = value.trim()
+  if (!/^(\+|00)/.test(trimmed)) {
+    return { country: preferred, national: trimmed.replace(/\D/g, '') }
+  }
+
+  const digits = trimmed.replace(/^00/, '').replace(/\D/g, '')
+  const country = countryForDigits(digits, countries, preferred)
+  return { country, national: digits.slice(dialDigits(country).length) }
+}
+
+// Whether an international number typed so far stops short of a whole dial code: "+", "+4"
+// or "+21" (+211, +212...) could still become several countries, or none yet
+export const isIncompleteDialCode = (value: string, countries: Country[]): boolean => {
+  const digits = value.trim().replace(/^00/, '').replace(/\D/g, '')
+  if (!countryForDigits(digits, countries)) return true
+  return countries.some(country => {
+    const dial = dialDigits(country)
+    return dial.length > digits.length && dial.startsWith(digits)
+  })
+}
+
+export const formatNationalNumber = (national: string, country: Country | undefined): string => {
+  const groups = GROUPS[dialDigits(country)]
+  const parts: string[] = []
+  let rest = national
+
+  if (groups) {
+    for (const size of groups) {
+      if (!rest) break
+      parts.push(rest.slice(0, size))
+      rest = rest.slice(size)
+    }
+  } else {
+    // Threes, with a four at the end rather than a lone digit
+    while (rest.length > 4) {
+      parts.push(rest.slice(0, 3))
+      rest = rest.slice(3)
+    }
+  }
+  if (rest) parts.push(rest)
+  return parts.join(' ')
+}
+
+export const joinPhoneNumber = (country: Country | undefined, national: string): string => {
+  const digits = national.replace(/\D/g, '').slice(0, MAX_PHONE_DIGITS - dialDigits(country).length)
+  if (!digits) return ''
+  const formatted = formatNationalNumber(digits, country)
+  return country?.mobile_code ? `${country.mobile_code} ${formatted}` : formatted
+}
@@ -0,0 +1,45 @@
+// Quantity ("buy more, save more") pricing from ProductVariant.price_brackets
+
+import type { PriceBracket, Product, ProductVariant } from '../types/product'
+
+// Brackets in quantity order, starting from 1 at the regular price when the store's first
+// bracket starts higher, so every quantity has a price
+export const normalizePriceBrackets = (brackets: PriceBracket[], basePrice: number): PriceBracket[] => {
+  const sorted = [...brackets].sort((a, b) => a.start_quantity - b.start_quantity)
+  if (sorted.length > 0 && sorted[0].start_quantity > 1) {
+    sorted.unshift({ start_quantity: 1, end_quantity: sorted[0].start_quantity - 1, price: basePrice })
+  }
+  return sorted
+}
+
+// The variant's brackets, normalized; empty when the product has no quantity pricing
+export const getPriceBrackets = (
+  product: Product,
+  variant: ProductVariant | undefined,
+  basePrice: number
+): PriceBracket[] => {
+  if (!product.is_product_price_brackets_available || !variant?.price_brackets?.length) return []
+  return normalizePriceBrackets(variant.price_brackets, basePrice)
+}
+
+export const findPriceBracket = (brackets: PriceBracket[], quantity: number): PriceBracket | undefined => {
+  // Last match wins, so an open-ended bracket never shadows a later one
+  return brackets.filter(bracket =>
+    quantity >= bracket.start_quantity
+      && (bracket.end_quantity === undefined || quantity <= bracket.end_quantity)
+  ).at(-1)
+}
+
+export const unitPriceForQuantity = (
+  brackets: PriceBracket[] | undefined,
+  quantity: number,
+  fallback: number
+): number => {
+  return (brackets && findPriceBracket(brackets, quantity)?.price) ?? fallback
+}
+
+export const formatBracketQuantity = (bracket: PriceBracket): string => {
+  if (bracket.end_quantity === undefined) return `${bracket.start_quantity}+`
+  if (bracket.end_quantity === bracket.start_quantity) return String(bracket.start_quantity)
+  return `${bracket.start_quantity}–${bracket.end_quantity}`
+}
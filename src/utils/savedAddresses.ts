@@ -0,0 +1,65 @@
+// Saved addresses from get-checkout-info, mapped onto the checkout address form
+
+import type { Address, CheckoutAddress, Country } from '../services/api'
+import { normalizeAddress } from './addressValidation'
+import type { CheckoutProgress } from './checkoutProgress'
+
+export const toCheckoutAddress = (address: Address, sameBillingAddress = true): CheckoutAddress => ({
+  first_name: address.first_name,
+  last_name: address.last_name,
+  email_address: address.email_address,
+  address: address.address,
+  street2: address.street2,
+  city: address.city,
+  state: address.state,
+  postal_code: address.postal_code,
+  telephone: address.telephone,
+  country: address.country,
+  same_billing_address: sameBillingAddress,
+})
+
+const COMPARED_FIELDS = [
+  'first_name',
+  'last_name',
+  'email_address',
+  'address',
+  'street2',
+  'city',
+  'state',
+  'postal_code',
+  'telephone',
+  'country',
+] as const
+
+// Whether the form still holds this saved address. Both sides are normalized the way the
+// address step saves the form, so a submitted saved address still matches its card.
+export const matchesSavedAddress = (form: CheckoutAddress, saved: Address, countries: Country[]): boolean => {
+  const current = normalizeAddress(form, countries)
+  const candidate = normalizeAddress(toCheckoutAddress(saved), countries)
+  return COMPARED_FIELDS.every(field => current[field] === candidate[field])
+}
+
+export const isBlankAddress = (address: CheckoutAddress): boolean => {
+  return COMPARED_FIELDS.every(field => !address[field].trim())
+}
+
+// Start from the store's selected addresses, unless the customer has already filled the form
+export const prefillFromSavedAddresses = (
+  progress: CheckoutProgress,
+  addresses: Address[]
+): Partial<CheckoutProgress> => {
+  if (addresses.length === 0 || !isBlankAddress(progress.shippingAddress)) {
+    return {}
+  }
+
+  const shipping = addresses.find(address => address.is_selected) ?? addresses[0]
+  const billing = addresses.find(address => address.is_selected_billing_address)
+  if (!billing || billing === shipping) {
+    return { shippingAddress: toCheckoutAddress(shipping) }
+  }
+  return {
+    shippingAddress: toCheckoutAddress(shipping, false),
+    billingAddress: toCheckoutAddress(billing, false),
+    sameBillingAddress: false,
+  }
+}
@@ -0,0 +1,116 @@
+// Variant selection helpers shared by the product views
+
+import type { Product, ProductVariant } from '../types/product'
+
+export type VariantSelection = Record<string, string>
+
+export interface VariantOptionGroup {
+  name: string
+  values: string[]
+}
+
+export const getVariantSelection = (variant: ProductVariant): VariantSelection => {
+  const selection: VariantSelection = {}
+  for (const option of variant.options || []) {
+    selection[option.name] = option.value
+  }
+  return selection
+}
+
+export const isVariantPurchasable = (variant: ProductVariant): boolean => {
+  return !variant.is_out_of_stock && variant.is_available_for_purchase !== false
+}
+
+// Build one picker group per attribute, ordered like Product.attributes when the API sends them
+export const getVariantOptionGroups = (product: Product): VariantOptionGroup[] => {
+  const groups = new Map<string, string[]>()
+
+  for (const variant of product.variants || []) {
+    for (const option of variant.options || []) {
+      const values = groups.get(option.name) || []
+      if (!values.includes(option.value)) {
+        values.push(option.value)
+      }
+      groups.set(option.name, values)
+    }
+  }
+
+  const attributeOrder = (product.attributes || []).map(attribute => attribute.name)
+  const rank = (name: string) => {
+    const index = attributeOrder.indexOf(name)
+    return index === -1 ? attributeOrder.length : index
+  }
+
+  return Array.from(groups.entries())
+    .map(([name, values]) => {
+      const attribute = product.attributes?.find(attr => attr.name === name)
+      if (attribute) {
+        const optionOrder = attribute.options.map(option => option.name)
+        values.sort((a, b) => {
+          const indexA = optionOrder.indexOf(a)
+          const indexB = optionOrder.indexOf(b)
+          return (indexA === -1 ? optionOrder.length : indexA) - (indexB === -1 ? optionOrder.length : indexB)
+        })
+      }
+      return { name, values }
+    })
+    .sort((a, b) => rank(a.name) - rank(b.name))
+}
+
+const matchesSelection = (variant: ProductVariant, selection: VariantSelection): boolean => {
+  const variantSelection = getVariantSelection(variant)
+  return Object.entries(selection).every(([name, value]) => variantSelection[name] === value)
+}
+
+export const findVariant = (
+  product: Product,
+  selection: VariantSelection
+): ProductVariant | undefined => {
+  return product.variants?.find(variant => matchesSelection(variant, selection))
+}
+
+// An option is available if picking it (keeping the other choices) lands on a purchasable variant
+export const isOptionAvailable = (
+  product: Product,
+  selection: VariantSelection,
+  name: string,
+  value: string
+): boolean => {
+  const candidate = { ...selection, [name]: value }
+  return (product.variants || []).some(
+    variant => matchesSelection(variant, candidate) && isVariantPurchasable(variant)
+  )
+}
+
+// When the exact combination doesn't exist, keep the newly picked value and
+// fall back to the closest variant that has it
+export const selectVariantOption = (
+  product: Product,
+  selection: VariantSelection,
+  name: string,
+  value: string
+): ProductVariant | undefined => {
+  const exact = findVariant(product, { ...selection, [name]: value })
+  if (exact) {
+    return exact
+  }
+
+  const withValue = (product.variants || []).filter(variant =>
+    matchesSelection(variant, { [name]: value })
+  )
+  return withValue.find(isVariantPurchasable) || withValue[0]
+}
+
+export const getInitialVariant = (
+  product: Product,
+  variantId?: string | null
+): ProductVariant | undefined => {
+  const variants = product.variants || []
+  if (variantId) {
+    const requested = variants.find(variant => variant.variant_id === variantId)
+    if (requested) {
+      return requested
+    }
+  }
+  return variants.find(isVariantPurchasable) || variants[0]
+}
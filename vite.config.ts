@@ -1,19 +1,28 @@
 import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
+import { mockWebhookPlugin } from './mock/vitePlugin'
+import { DEFAULT_MOCK_PORT } from './mock/server'
 
 // https://vite.dev/config/
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, process.cwd(), '')
+  // `vite --mode mock` serves /webhook from the local mock backend instead of n8n
+  const useMockWebhook = mode === 'mock'
+  const mockPort = Number(env.MOCK_WEBHOOK_PORT) || DEFAULT_MOCK_PORT
   
   return {
-    plugins: [react()],
+    plugins: [
+      react(),
+      ...(useMockWebhook ? [mockWebhookPlugin({ port: mockPort, env })] : []),
+    ],
     server: {
       proxy: {
-        '/api': {
+        // Same relay as api/storefront.ts in production
+        '/api/storefront': {
           target: env.VITE_API_BASE_URL || 'https://commerce.zoho.com',
           changeOrigin: true,
           secure: true,
-          rewrite: (path) => path.replace(/^\/api/, '/storefront/api/v1'),
+          rewrite: (path) => path.replace(/^\/api\/storefront/, '/storefront/api/v1'),
           configure: (proxy, _options) => {
             proxy.on('proxyReq', (proxyReq, _req, _res) => {
               const domainName = env.VITE_DOMAIN_NAME || 'activepharm.zohoecommerce.com';
@@ -23,7 +32,10 @@ export default defineConfig(({ mode }) => {
             });
           },
         },
-        '/webhook': {
+        '/webhook': useMockWebhook ? {
+          target: `http://localhost:${mockPort}`,
+          changeOrigin: true,
+        } : {
           target: 'https://n8n.impactwebstudio.ca',
           changeOrigin: true,
           secure: true,